@@ -0,0 +1,251 @@
+import type * as http from 'http'
+import type * as net from 'net'
+import * as os from 'os'
+import * as crypto from 'crypto'
+
+// PIN 확인 페이지와 제출 주소 (학생 사이트의 경로와 겹치지 않게 별도 접두사 사용)
+const PIN_PATH = '/__mozu/pin'
+const PASS_COOKIE = 'mozu_lesson_pass'
+// 같은 기기가 PIN을 계속 틀리면 잠시 막음
+const MAX_PIN_FAILURES = 5
+const PIN_LOCKOUT_MS = 60000
+// 같은 기기의 차단 로그는 이 간격으로만 남김 (새로고침 반복으로 로그가 넘치지 않도록)
+const BLOCK_LOG_INTERVAL_MS = 60000
+// PIN 제출 폼 본문 최대 길이
+const MAX_FORM_LENGTH = 4096
+
+const CIDR = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/
+const LESSON_PIN = /^\d{4,8}$/
+
+type Subnet = { base: number; mask: number; label: string }
+
+export type AccessGateOptions = {
+  allowedNetworks: string[];          // '192.168.10.0/24' 같은 CIDR 또는 네트워크 어댑터 이름 (비어 있으면 모두 허용)
+  pin: string;                        // '' = PIN 확인 없음
+  isTrusted?: (ip: string) => boolean; // 이 PC 자신 등 항상 통과시킬 주소
+  log?: (line: string) => void;
+}
+
+export type AccessGate = {
+  // false면 게이트가 이미 응답했으므로 프록시는 요청을 전달하지 않음
+  allowRequest: (req: http.IncomingMessage, res: http.ServerResponse, ip: string) => boolean;
+  allowUpgrade: (req: http.IncomingMessage, socket: net.Socket, ip: string) => boolean;
+  pin: () => string;
+  setPin: (pin: string) => void;
+}
+
+function ipToNumber(ip: string): number | null {
+  const parts = ip.split('.').map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) return null
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+}
+
+function prefixMask(prefix: number): number {
+  return prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0
+}
+
+export function isValidCidr(entry: string): boolean {
+  const match = CIDR.exec(entry.trim())
+  return !!match && ipToNumber(match[1]) !== null && Number(match[2]) <= 32
+}
+
+export function isValidLessonPin(pin: string): boolean {
+  return pin === '' || LESSON_PIN.test(pin)
+}
+
+export function randomLessonPin(): string {
+  return String(crypto.randomInt(0, 10000)).padStart(4, '0')
+}
+
+// CIDR은 그대로, 어댑터 이름은 지금 그 어댑터의 IPv4 서브넷으로 바꿈 (연결되지 않은 어댑터는 빈 목록)
+export function resolveNetworks(entries: string[]): Subnet[] {
+  const subnets: Subnet[] = []
+  for (const raw of entries) {
+    const entry = raw.trim()
+    if (!entry) continue
+    const cidrs = isValidCidr(entry)
+      ? [entry]
+      : (os.networkInterfaces()[entry] ?? [])
+        .filter((alias) => alias.family === 'IPv4' && alias.cidr)
+        .map((alias) => alias.cidr!)
+    for (const cidr of cidrs) {
+      const [address, prefix] = cidr.split('/')
+      const mask = prefixMask(Number(prefix))
+      subnets.push({ base: (ipToNumber(address)! & mask) >>> 0, mask, label: entry === cidr ? cidr : `${entry} (${cidr})` })
+    }
+  }
+  return subnets
+}
+
+function readCookie(req: http.IncomingMessage, name: string): string | null {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return value.join('=')
+  }
+  return null
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`)
+}
+
+// 상대 경로만 돌아갈 주소로 허용 (다른 사이트로 보내는 주소 방지)
+function safeReturnPath(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/signin'
+}
+
+function sendPage(res: http.ServerResponse, statusCode: number, body: string) {
+  res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' })
+  res.end(`<!doctype html><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>모주 모의주식투자</title><body style="font-family:sans-serif;text-align:center;margin-top:15vh;padding:0 16px">${body}</body>`)
+}
+
+function pinForm(returnTo: string, message?: string): string {
+  return `<h2>수업 PIN을 입력하세요</h2>
+<p style="color:#666">선생님이 알려준 숫자를 입력하면 수업 사이트로 이동합니다.</p>
+<form method="post" action="${PIN_PATH}">
+<input type="hidden" name="return" value="${escapeHtml(returnTo)}">
+<input name="pin" inputmode="numeric" autocomplete="off" autofocus maxlength="8" style="font-size:2em;width:6em;text-align:center;letter-spacing:.2em">
+<p><button type="submit" style="font-size:1.2em;padding:.4em 1.6em">입장</button></p>
+</form>${message ? `<p style="color:#c00">${escapeHtml(message)}</p>` : ''}`
+}
+
+// 본문이 너무 길거나 받는 도중 연결이 끊기면 null (어느 경우든 한 번만 끝남)
+function readForm(req: http.IncomingMessage): Promise<URLSearchParams | null> {
+  return new Promise((resolve) => {
+    let body = ''
+    let settled = false
+    const finish = (form: URLSearchParams | null) => {
+      if (settled) return
+      settled = true
+      resolve(form)
+    }
+    req.setEncoding('utf-8')
+    req.on('data', (chunk: string) => {
+      if (settled) return
+      body += chunk
+      if (body.length > MAX_FORM_LENGTH) finish(null)
+    })
+    req.on('end', () => finish(new URLSearchParams(body)))
+    req.on('error', () => finish(null))
+    req.on('aborted', () => finish(null))
+    req.on('close', () => finish(null))
+  })
+}
+
+// 학생용 프록시 앞단의 접속 제한: 허용된 네트워크만 통과시키고, PIN이 있으면 입장 확인 후 쿠키를 발급
+export function createAccessGate(options: AccessGateOptions): AccessGate {
+  const log = options.log ?? (() => {})
+  const isTrusted = options.isTrusted ?? (() => false)
+  const subnets = resolveNetworks(options.allowedNetworks)
+  let pin = options.pin
+  // PIN을 바꿔도 이미 입장한 기기는 그대로 둠 (수업 중 학생 화면이 끊기지 않도록)
+  const passes = new Set<string>()
+  const failures = new Map<string, { count: number; lockedUntil: number }>()
+  const lastBlockLog = new Map<string, number>()
+
+  if (options.allowedNetworks.length > 0) {
+    log(`[access] Allowed networks: ${subnets.map((subnet) => subnet.label).join(', ') || '(none connected)'}`)
+  }
+
+  const logBlocked = (ip: string, reason: string) => {
+    const now = Date.now()
+    if (now - (lastBlockLog.get(ip) ?? 0) < BLOCK_LOG_INTERVAL_MS) return
+    lastBlockLog.set(ip, now)
+    log(`[access:err] Blocked ${ip}: ${reason}`)
+  }
+
+  const inAllowedNetwork = (ip: string) => {
+    if (options.allowedNetworks.length === 0) return true
+    const value = ipToNumber(ip)
+    return value !== null && subnets.some((subnet) => ((value & subnet.mask) >>> 0) === subnet.base)
+  }
+
+  const hasPass = (req: http.IncomingMessage) => {
+    const pass = readCookie(req, PASS_COOKIE)
+    return !!pass && passes.has(pass)
+  }
+
+  const submitPin = async (req: http.IncomingMessage, res: http.ServerResponse, ip: string) => {
+    const form = await readForm(req)
+    if (!form) {
+      // 남은 본문을 더 받지 않도록 응답 후 연결을 닫음
+      res.shouldKeepAlive = false
+      sendPage(res, 413, pinForm('/signin', '입력 내용이 너무 깁니다.'))
+      return
+    }
+    const returnTo = safeReturnPath(form.get('return'))
+    const now = Date.now()
+    const failure = failures.get(ip)
+    if (failure && failure.lockedUntil > now) {
+      sendPage(res, 429, pinForm(returnTo, '잘못 입력한 횟수가 많습니다. 1분 뒤에 다시 시도하세요.'))
+      return
+    }
+    if (!pin || form.get('pin')?.trim() === pin) {
+      failures.delete(ip)
+      const pass = crypto.randomBytes(16).toString('hex')
+      passes.add(pass)
+      log(`[access] ${ip} entered the lesson PIN`)
+      res.writeHead(303, {
+        Location: returnTo,
+        'Set-Cookie': `${PASS_COOKIE}=${pass}; Path=/; HttpOnly; SameSite=Lax`,
+        'Cache-Control': 'no-store'
+      })
+      res.end()
+      return
+    }
+
+    const count = (failure?.count ?? 0) + 1
+    const locked = count >= MAX_PIN_FAILURES
+    failures.set(ip, { count: locked ? 0 : count, lockedUntil: locked ? now + PIN_LOCKOUT_MS : 0 })
+    log(`[access:err] Wrong lesson PIN from ${ip}${locked ? ' (locked for 1 minute)' : ''}`)
+    sendPage(res, 403, pinForm(returnTo, 'PIN이 올바르지 않습니다.'))
+  }
+
+  const allowRequest = (req: http.IncomingMessage, res: http.ServerResponse, ip: string) => {
+    if (isTrusted(ip)) return true
+    if (!inAllowedNetwork(ip)) {
+      logBlocked(ip, 'not in the allowed networks')
+      sendPage(res, 403, '<h2>이 네트워크에서는 접속할 수 없습니다</h2><p style="color:#666">수업 중인 교실의 Wi-Fi에 연결되어 있는지 확인하세요.</p>')
+      return false
+    }
+    const pathname = (req.url ?? '/').split('?')[0]
+    if (pathname === PIN_PATH) {
+      if (req.method === 'POST') {
+        submitPin(req, res, ip).catch(() => res.destroy())
+      } else {
+        sendPage(res, 200, pinForm('/signin'))
+      }
+      return false
+    }
+    if (!pin || hasPass(req)) return true
+
+    // 페이지 요청에는 PIN 입력 화면을, 그 외(스크립트, 이미지 등)에는 403만 보냄
+    logBlocked(ip, 'lesson PIN not entered')
+    if (req.method === 'GET' && (req.headers.accept ?? '').includes('text/html')) {
+      sendPage(res, 401, pinForm(safeReturnPath(req.url)))
+    } else {
+      res.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8' })
+      res.end('Lesson PIN required')
+    }
+    return false
+  }
+
+  const allowUpgrade = (req: http.IncomingMessage, socket: net.Socket, ip: string) => {
+    if (isTrusted(ip)) return true
+    if (inAllowedNetwork(ip) && (!pin || hasPass(req))) return true
+    logBlocked(ip, inAllowedNetwork(ip) ? 'lesson PIN not entered' : 'not in the allowed networks')
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n')
+    return false
+  }
+
+  return {
+    allowRequest,
+    allowUpgrade,
+    pin: () => pin,
+    setPin: (next: string) => {
+      if (!isValidLessonPin(next)) throw new Error('PIN은 4~8자리 숫자여야 합니다.')
+      pin = next
+      log(next ? '[access] Lesson PIN changed' : '[access] Lesson PIN disabled')
+    }
+  }
+}
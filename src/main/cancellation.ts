@@ -0,0 +1,45 @@
+// 진행 중인 수업 실행을 중간에 멈추기 위한 취소 토큰
+export class LaunchCancelledError extends Error {
+  readonly code = 'CANCELLED'
+  constructor() {
+    super('실행이 취소되었습니다 (CANCELLED)')
+    this.name = 'LaunchCancelledError'
+  }
+}
+
+export type CancelToken = {
+  readonly cancelled: boolean;
+  throwIfCancelled: () => void;
+  onCancel: (cb: () => void) => () => void;   // 해제 함수 반환, 이미 취소됐으면 즉시 호출
+}
+
+export function createCancellation(): { token: CancelToken; cancel: () => void } {
+  let cancelled = false
+  const listeners = new Set<() => void>()
+
+  const token: CancelToken = {
+    get cancelled() {
+      return cancelled
+    },
+    throwIfCancelled() {
+      if (cancelled) throw new LaunchCancelledError()
+    },
+    onCancel(cb) {
+      if (cancelled) {
+        cb()
+        return () => {}
+      }
+      listeners.add(cb)
+      return () => listeners.delete(cb)
+    }
+  }
+
+  const cancel = () => {
+    if (cancelled) return
+    cancelled = true
+    for (const cb of listeners) cb()
+    listeners.clear()
+  }
+
+  return { token, cancel }
+}
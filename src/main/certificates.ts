@@ -0,0 +1,296 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as net from 'net'
+import path from 'path'
+
+// 로컬 CA는 한 번 만들어 학생 기기에 설치해두고 계속 사용
+const CA_VALIDITY_DAYS = 3650
+// iOS/macOS가 받아들이는 서버 인증서 최대 유효 기간(398일)보다 짧게
+const SERVER_VALIDITY_DAYS = 397
+// 만료가 가까우면 수업 시작 시 새로 발급
+const RENEW_BEFORE_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+// 학생 기기에 설치하는 CA가 서명할 수 있는 이름 (CA 키가 유출돼도 다른 사이트 인증서는 만들 수 없도록)
+// 교실 IP는 수업마다 바뀔 수 있으므로 사설/링크 로컬/루프백 대역 전체를 허용
+const PERMITTED_DNS_NAMES = ['localhost', 'local']
+const PERMITTED_NETWORKS = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '169.254.0.0/16', '127.0.0.0/8', '::1/128', 'fc00::/7', 'fe80::/10']
+
+const OID = {
+  commonName: '2.5.4.3',
+  organizationName: '2.5.4.10',
+  rsaSha256: '1.2.840.113549.1.1.11',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  basicConstraints: '2.5.29.19',
+  nameConstraints: '2.5.29.30',
+  authorityKeyIdentifier: '2.5.29.35',
+  extKeyUsage: '2.5.29.37',
+  serverAuth: '1.3.6.1.5.5.7.3.1'
+}
+
+export type CertificateNames = {
+  ipAddresses: string[];
+  dnsNames: string[];
+}
+
+export type TlsMaterial = {
+  key: string;             // 서버 개인 키 (PEM)
+  cert: string;            // 서버 인증서 (PEM)
+  ca: string;              // 학생 기기에 설치할 CA 인증서 (PEM)
+  caPath: string;
+}
+
+/** ---------- DER 인코딩 (X.509에 필요한 만큼만) ---------- */
+function tlv(tag: number, content: Buffer): Buffer {
+  const length = content.length
+  let header: Buffer
+  if (length < 0x80) {
+    header = Buffer.from([tag, length])
+  } else {
+    const bytes: number[] = []
+    for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff)
+    header = Buffer.from([tag, 0x80 | bytes.length, ...bytes])
+  }
+  return Buffer.concat([header, content])
+}
+
+const seq = (...items: Buffer[]) => tlv(0x30, Buffer.concat(items))
+const set = (...items: Buffer[]) => tlv(0x31, Buffer.concat(items))
+const explicit = (n: number, item: Buffer) => tlv(0xa0 + n, item)
+const octetString = (content: Buffer) => tlv(0x04, content)
+const bitString = (content: Buffer, unusedBits = 0) => tlv(0x03, Buffer.concat([Buffer.from([unusedBits]), content]))
+const utf8 = (text: string) => tlv(0x0c, Buffer.from(text, 'utf-8'))
+const bool = (value: boolean) => tlv(0x01, Buffer.from([value ? 0xff : 0]))
+const nullValue = () => Buffer.from([0x05, 0])
+
+function integer(value: Buffer | number): Buffer {
+  let bytes = typeof value === 'number' ? Buffer.from([value]) : value
+  while (bytes.length > 1 && bytes[0] === 0 && bytes[1] < 0x80) bytes = bytes.subarray(1)
+  if (bytes[0] >= 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes])
+  return tlv(0x02, bytes)
+}
+
+function oid(value: string): Buffer {
+  const parts = value.split('.').map(Number)
+  const bytes = [parts[0] * 40 + parts[1]]
+  for (const part of parts.slice(2)) {
+    const chunk = [part & 0x7f]
+    for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift(0x80 | (n & 0x7f))
+    bytes.push(...chunk)
+  }
+  return tlv(0x06, Buffer.from(bytes))
+}
+
+// 2049년 이전은 UTCTime, 이후는 GeneralizedTime (RFC 5280)
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z'
+  return date.getUTCFullYear() < 2050 ? tlv(0x17, Buffer.from(iso.slice(2))) : tlv(0x18, Buffer.from(iso))
+}
+
+function name(commonName: string): Buffer {
+  return seq(
+    set(seq(oid(OID.organizationName), utf8('Mozu Launcher'))),
+    set(seq(oid(OID.commonName), utf8(commonName)))
+  )
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+  return seq(oid(id), ...(critical ? [bool(true)] : []), octetString(value))
+}
+
+function ipBytes(address: string): Buffer {
+  if (net.isIPv4(address)) return Buffer.from(address.split('.').map(Number))
+  // IPv6는 :: 축약을 풀어 16바이트로
+  const [head, tail = ''] = address.split('::')
+  const headParts = head ? head.split(':') : []
+  const tailParts = tail ? tail.split(':') : []
+  const groups = [...headParts, ...Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts]
+  return Buffer.concat(groups.map((group) => {
+    const bytes = Buffer.alloc(2)
+    bytes.writeUInt16BE(parseInt(group, 16), 0)
+    return bytes
+  }))
+}
+
+// iPAddress 이름 제약은 주소 뒤에 같은 길이의 마스크를 붙인 형태
+function networkBytes(cidr: string): Buffer {
+  const [address, bits] = cidr.split('/')
+  const base = ipBytes(address)
+  const mask = Buffer.alloc(base.length)
+  for (let i = 0; i < Number(bits); i++) mask[i >> 3] |= 0x80 >> (i % 8)
+  return Buffer.concat([base, mask])
+}
+
+// permittedSubtrees만 지정 (dNSName은 하위 도메인까지 포함: 'local' -> *.local)
+function nameConstraints(): Buffer {
+  const subtrees = [
+    ...PERMITTED_DNS_NAMES.map((name) => seq(tlv(0x82, Buffer.from(name, 'ascii')))),
+    ...PERMITTED_NETWORKS.map((cidr) => seq(tlv(0x87, networkBytes(cidr))))
+  ]
+  return seq(tlv(0xa0, Buffer.concat(subtrees)))
+}
+
+function keyIdentifier(spki: Buffer): Buffer {
+  return crypto.createHash('sha1').update(spki).digest()
+}
+
+type IssueOptions = {
+  subject: string;
+  publicKey: crypto.KeyObject;
+  issuer: string;
+  issuerKey: crypto.KeyObject;
+  issuerPublicKey: crypto.KeyObject;
+  validityDays: number;
+  extensions: Buffer[];
+}
+
+function issue(options: IssueOptions): string {
+  const spki = options.publicKey.export({ type: 'spki', format: 'der' })
+  const issuerSpki = options.issuerPublicKey.export({ type: 'spki', format: 'der' })
+  const notBefore = new Date(Date.now() - DAY_MS)
+  const notAfter = new Date(Date.now() + options.validityDays * DAY_MS)
+  const algorithm = seq(oid(OID.rsaSha256), nullValue())
+
+  const tbs = seq(
+    explicit(0, integer(2)),                        // v3
+    integer(crypto.randomBytes(16)),
+    algorithm,
+    name(options.issuer),
+    seq(time(notBefore), time(notAfter)),
+    name(options.subject),
+    spki,
+    explicit(3, seq(
+      extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(spki))),
+      extension(OID.authorityKeyIdentifier, false, seq(tlv(0x80, keyIdentifier(issuerSpki)))),
+      ...options.extensions
+    ))
+  )
+  const signature = crypto.sign('sha256', tbs, options.issuerKey)
+  const der = seq(tbs, algorithm, bitString(signature))
+  return `-----BEGIN CERTIFICATE-----\n${der.toString('base64').match(/.{1,64}/g)!.join('\n')}\n-----END CERTIFICATE-----\n`
+}
+
+function generateKey(): crypto.KeyPairKeyObjectResult {
+  return crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+}
+
+function exportKey(key: crypto.KeyObject): string {
+  return key.export({ type: 'pkcs8', format: 'pem' }) as string
+}
+
+export function createCertificateAuthority(commonName: string): { cert: string; key: string } {
+  const { publicKey, privateKey } = generateKey()
+  const cert = issue({
+    subject: commonName,
+    publicKey,
+    issuer: commonName,
+    issuerKey: privateKey,
+    issuerPublicKey: publicKey,
+    validityDays: CA_VALIDITY_DAYS,
+    extensions: [
+      extension(OID.basicConstraints, true, seq(bool(true), integer(0))),
+      extension(OID.keyUsage, true, bitString(Buffer.from([0x06]), 1)),    // keyCertSign, cRLSign
+      extension(OID.nameConstraints, true, nameConstraints())
+    ]
+  })
+  return { cert, key: exportKey(privateKey) }
+}
+
+export function issueServerCertificate(ca: { cert: string; key: string }, names: CertificateNames): { cert: string; key: string } {
+  const { publicKey, privateKey } = generateKey()
+  const caCert = new crypto.X509Certificate(ca.cert)
+  const altNames = [
+    ...names.dnsNames.map((dns) => tlv(0x82, Buffer.from(dns, 'ascii'))),
+    ...names.ipAddresses.map((ip) => tlv(0x87, ipBytes(ip)))
+  ]
+  const cert = issue({
+    subject: names.dnsNames[0] ?? names.ipAddresses[0] ?? 'localhost',
+    publicKey,
+    issuer: caCert.subject.split('\n').find((line) => line.startsWith('CN='))!.slice(3),
+    issuerKey: crypto.createPrivateKey(ca.key),
+    issuerPublicKey: caCert.publicKey,
+    validityDays: SERVER_VALIDITY_DAYS,
+    extensions: [
+      extension(OID.basicConstraints, true, seq()),
+      extension(OID.keyUsage, true, bitString(Buffer.from([0xa0]), 5)),    // digitalSignature, keyEncipherment
+      extension(OID.extKeyUsage, false, seq(oid(OID.serverAuth))),
+      extension(OID.subjectAltName, false, seq(...altNames))
+    ]
+  })
+  return { cert, key: exportKey(privateKey) }
+}
+
+// 기존 서버 인증서가 지금 필요한 이름을 모두 포함하고 충분히 유효한지
+function coversNames(certPem: string, caPem: string, names: CertificateNames): boolean {
+  try {
+    const cert = new crypto.X509Certificate(certPem)
+    if (!cert.verify(new crypto.X509Certificate(caPem).publicKey)) return false
+    if (new Date(cert.validTo).getTime() - Date.now() < RENEW_BEFORE_DAYS * DAY_MS) return false
+    return names.ipAddresses.every((ip) => cert.checkIP(ip) !== undefined) &&
+      names.dnsNames.every((dns) => cert.checkHost(dns) !== undefined)
+  } catch {
+    return false
+  }
+}
+
+function readIfExists(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf-8')
+  } catch {
+    return null
+  }
+}
+
+// 이름 제약 없이 만들어진 예전 CA는 새로 만듦
+function hasNameConstraints(certPem: string): boolean {
+  try {
+    return new crypto.X509Certificate(certPem).raw.includes(oid(OID.nameConstraints))
+  } catch {
+    return false
+  }
+}
+
+const CA_CERT_FILE = 'mozu-local-ca.crt'
+const CA_KEY_FILE = 'mozu-local-ca.key'
+
+// dir의 로컬 CA를 불러오고 없으면 새로 만듦 (CA 내보내기는 수업 전에도 할 수 있어야 함)
+export function ensureCertificateAuthority(dir: string, log: (line: string) => void = () => {}): { cert: string; key: string; certPath: string } {
+  fs.mkdirSync(dir, { recursive: true })
+  const certPath = path.join(dir, CA_CERT_FILE)
+  const keyPath = path.join(dir, CA_KEY_FILE)
+  const cert = readIfExists(certPath)
+  const key = readIfExists(keyPath)
+  if (cert && key && hasNameConstraints(cert)) return { cert, key, certPath }
+
+  if (cert && key) {
+    log('[tls:err] The local certificate authority has no name constraints, replacing it. Install the new mozu-local-ca.crt on student devices and remove the old one.')
+  } else {
+    log('[tls] Creating a local certificate authority')
+  }
+  const created = createCertificateAuthority(`Mozu Launcher Local CA ${new Date().toISOString().slice(0, 10)}`)
+  fs.writeFileSync(keyPath, created.key, { mode: 0o600 })
+  fs.writeFileSync(certPath, created.cert)
+  return { ...created, certPath }
+}
+
+// dir에 CA와 서버 인증서를 두고, 이름이 바뀌었거나 만료가 가까우면 서버 인증서만 새로 발급
+export function ensureCertificates(dir: string, names: CertificateNames, log: (line: string) => void = () => {}): TlsMaterial {
+  const ca = ensureCertificateAuthority(dir, log)
+  const certPath = path.join(dir, 'server.crt')
+  const keyPath = path.join(dir, 'server.key')
+
+  // CA가 바뀐 경우에도 coversNames의 서명 확인에서 걸러져 새로 발급됨
+  let cert = readIfExists(certPath)
+  let key = readIfExists(keyPath)
+  if (!cert || !key || !coversNames(cert, ca.cert, names)) {
+    log(`[tls] Issuing a server certificate for ${[...names.dnsNames, ...names.ipAddresses].join(', ')}`)
+    const issued = issueServerCertificate(ca, names)
+    fs.writeFileSync(keyPath, issued.key, { mode: 0o600 })
+    fs.writeFileSync(certPath, issued.cert)
+    cert = issued.cert
+    key = issued.key
+  }
+
+  return { key, cert, ca: ca.cert, caPath: ca.certPath }
+}
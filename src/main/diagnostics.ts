@@ -0,0 +1,95 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import * as os from 'os'
+import path from 'path'
+import type { LaunchStatus, LauncherSettings } from '../shared/types'
+import { recentLogFiles } from './sessionLog'
+import { createZip, type ZipEntry } from './zip'
+
+// 진단 묶음에 넣을 최근 세션 로그 수
+const DIAGNOSTIC_LOG_FILES = 5
+const TOOLS: { label: string; cmd: string; args: string[] }[] = [
+  { label: 'git', cmd: 'git', args: ['--version'] },
+  { label: 'node', cmd: 'node', args: ['--version'] },
+  { label: 'npm', cmd: process.platform === 'win32' ? 'npm.cmd' : 'npm', args: ['--version'] },
+  { label: 'yarn', cmd: process.platform === 'win32' ? 'yarn.cmd' : 'yarn', args: ['--version'] }
+]
+const SECRET_KEY = /token|secret|password|passwd|api[_-]?key|private/i
+
+export type DiagnosticsInput = {
+  runTool: (cmd: string, args: string[]) => Promise<string>;  // 도구 버전 확인용 (출력을 문자열로 반환)
+  settings: LauncherSettings;
+  envFiles: { sessionId: string; frontendDir: string; targets: string[] }[];  // 세션별 프론트엔드 폴더와 그 기준 .env.local 경로
+  statuses: Record<string, LaunchStatus>;  // 실행 중인 수업 세션별 상태
+}
+
+// URL에 들어간 계정 정보와 사용자 폴더 경로를 가림
+function sanitize(text: string): string {
+  const home = os.homedir()
+  let result = text.replace(/(\w+:\/\/)[^/@\s"]+@/g, '$1***@')
+  if (home) result = result.split(home).join('~')
+  return result
+}
+
+function sanitizeEnvFile(content: string): string {
+  return sanitize(content.split('\n').map((line) => {
+    const eq = line.indexOf('=')
+    if (eq <= 0 || line.trimStart().startsWith('#')) return line
+    return SECRET_KEY.test(line.slice(0, eq)) ? `${line.slice(0, eq)}=***` : line
+  }).join('\n'))
+}
+
+async function toolVersions(runTool: DiagnosticsInput['runTool']): Promise<string> {
+  const lines = await Promise.all(TOOLS.map(async (tool) => {
+    try {
+      return `${tool.label}: ${(await runTool(tool.cmd, tool.args)).split('\n')[0]}`
+    } catch (err: any) {
+      return `${tool.label}: not available (${err?.message || err})`
+    }
+  }))
+  return lines.join('\n') + '\n'
+}
+
+function systemSummary(input: DiagnosticsInput): string {
+  const lines = [
+    `generated: ${new Date().toISOString()}`,
+    `launcher: ${app.getVersion()} (electron ${process.versions.electron}, node ${process.versions.node})`,
+    `os: ${os.type()} ${os.release()} ${os.arch()}`,
+    `cpu: ${os.cpus()[0]?.model ?? 'unknown'} x${os.cpus().length}`,
+    `memory: ${Math.round(os.freemem() / 1024 / 1024)}MB free / ${Math.round(os.totalmem() / 1024 / 1024)}MB total`,
+    `uptime: ${Math.round(os.uptime() / 60)} min`,
+    '',
+    `selected network interface: ${input.settings.networkInterface || '(auto)'}`,
+    'network interfaces:'
+  ]
+  for (const [name, aliases] of Object.entries(os.networkInterfaces())) {
+    for (const alias of aliases ?? []) {
+      lines.push(`  ${name}: ${alias.family} ${alias.address}${alias.internal ? ' (internal)' : ''}`)
+    }
+  }
+  lines.push('', 'launch status:', JSON.stringify(input.statuses, null, 2))
+  return sanitize(lines.join('\n')) + '\n'
+}
+
+// 지원팀 전달용 zip 생성: 최근 로그, 도구 버전, 설정, .env.local, OS/네트워크 요약
+export async function buildDiagnosticsBundle(input: DiagnosticsInput): Promise<Buffer> {
+  const entries: ZipEntry[] = [
+    { name: 'system.txt', data: systemSummary(input) },
+    { name: 'tool-versions.txt', data: await toolVersions(input.runTool) },
+    { name: 'settings.json', data: sanitize(JSON.stringify(input.settings, null, 2)) }
+  ]
+
+  for (const file of recentLogFiles(DIAGNOSTIC_LOG_FILES)) {
+    entries.push({ name: `logs/${path.basename(file)}`, data: sanitize(fs.readFileSync(file, 'utf-8')) })
+  }
+
+  for (const source of input.envFiles) {
+    for (const target of source.targets) {
+      const file = path.join(source.frontendDir, target)
+      if (!fs.existsSync(file)) continue
+      entries.push({ name: `env/${source.sessionId}/${target.replace(/\\/g, '/')}`, data: sanitizeEnvFile(fs.readFileSync(file, 'utf-8')) })
+    }
+  }
+
+  return createZip(entries)
+}
@@ -0,0 +1,135 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import path from 'path'
+import type { EnvFileTemplate, EnvOverrides, RenderedEnvFile } from '../shared/types'
+
+// mozu-FE의 packages 구조에 맞춘 기본 .env.local 구성
+export const DEFAULT_ENV_FILES: EnvFileTemplate[] = [
+  {
+    target: 'packages/admin/.env.local',
+    comment: 'Admin package configuration',
+    requireDir: true,
+    vars: {
+      VITE_SERVER_URL: '{serverUrl}',
+      VITE_ADMIN_URL: '{scheme}://{adminHost}:{adminPort}',
+      VITE_ADMIN_AUTH_URL: '{scheme}://{adminHost}:{adminPort}/signin',
+      VITE_ADMIN_COOKIE_DOMAIN: '{adminCookieDomain}',
+      VITE_ADMIN_PORT: '{adminPort}',
+      BRANCH: '{branch}'
+    }
+  },
+  {
+    target: 'packages/student/.env.local',
+    comment: 'Student package configuration',
+    requireDir: true,
+    vars: {
+      VITE_SERVER_URL: '{serverUrl}',
+      VITE_STUDENT_URL: '{scheme}://{localIP}:{studentPort}',
+      VITE_STUDENT_AUTH_URL: '{scheme}://{localIP}:{studentPort}/signin',
+      VITE_STUDENT_COOKIE_DOMAIN: '{studentCookieDomain}',
+      VITE_STUDENT_PORT: '{studentPort}',
+      BRANCH: '{branch}'
+    }
+  },
+  {
+    target: 'packages/util-config/.env.local',
+    comment: 'Util-config package configuration',
+    requireDir: true,
+    vars: {
+      VITE_SERVER_URL: '{serverUrl}',
+      VITE_COOKIE_DOMAIN: '{cookieDomain}',
+      VITE_ADMIN_COOKIE_DOMAIN: '{adminCookieDomain}',
+      VITE_STUDENT_COOKIE_DOMAIN: '{studentCookieDomain}',
+      BRANCH: '{branch}'
+    }
+  },
+  {
+    target: '.env.local',
+    comment: 'Root fallback configuration',
+    vars: {
+      VITE_SERVER_URL: '{serverUrl}',
+      VITE_STUDENT_URL: '{scheme}://{localIP}:{studentPort}',
+      VITE_STUDENT_AUTH_URL: '{scheme}://{localIP}:{studentPort}/signin',
+      VITE_STUDENT_COOKIE_DOMAIN: '{studentCookieDomain}',
+      VITE_ADMIN_URL: '{scheme}://{adminHost}:{adminPort}',
+      VITE_ADMIN_AUTH_URL: '{scheme}://{adminHost}:{adminPort}/signin',
+      VITE_ADMIN_COOKIE_DOMAIN: '{adminCookieDomain}',
+      VITE_COOKIE_DOMAIN: '{cookieDomain}',
+      VITE_STUDENT_PORT: '{studentPort}',
+      VITE_ADMIN_PORT: '{adminPort}',
+      BRANCH: '{branch}'
+    }
+  }
+]
+
+// {name} 형태의 변수를 치환 (정의되지 않은 변수는 그대로 둠)
+export function renderTemplate(value: string, variables: Record<string, string>): string {
+  return value.replace(/\{(\w+)\}/g, (match, name: string) => variables[name] ?? match)
+}
+
+export function renderEnvFiles(
+  templates: EnvFileTemplate[],
+  variables: Record<string, string>,
+  overrides: EnvOverrides = {}
+): RenderedEnvFile[] {
+  return templates.map((template) => {
+    const fileOverrides = overrides[template.target] || {}
+    const entries: Record<string, string> = {}
+    for (const [key, value] of Object.entries(template.vars)) {
+      entries[key] = renderTemplate(value, variables)
+    }
+    // 오버라이드는 템플릿에 없는 키도 추가할 수 있음
+    for (const [key, value] of Object.entries(fileOverrides)) {
+      entries[key] = renderTemplate(value, variables)
+    }
+
+    const lines = [
+      ...(template.comment ? [`# ${template.comment}`] : []),
+      ...Object.entries(entries).map(([key, value]) => `${key}=${value}`)
+    ]
+    return {
+      target: template.target,
+      content: lines.join('\n') + '\n',
+      overridden: Object.keys(fileOverrides)
+    }
+  })
+}
+
+// requireDir인 템플릿은 대상 폴더가 있을 때만 생성, 작성한 파일 경로 목록 반환
+export function writeEnvFiles(rootDir: string, templates: EnvFileTemplate[], rendered: RenderedEnvFile[]): string[] {
+  const written: string[] = []
+  rendered.forEach((file, index) => {
+    const filePath = path.resolve(rootDir, file.target)
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Env file target escapes the project directory: ${file.target}`)
+    }
+    if (templates[index]?.requireDir && !fs.existsSync(path.dirname(filePath))) return
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, file.content, 'utf-8')
+    written.push(file.target)
+  })
+  return written
+}
+
+function overridesPath(): string {
+  return path.join(app.getPath('userData'), 'env-overrides.json')
+}
+
+export function loadEnvOverrides(): EnvOverrides {
+  try {
+    return JSON.parse(fs.readFileSync(overridesPath(), 'utf-8'))
+  } catch {
+    return {}
+  }
+}
+
+export function saveEnvOverrides(overrides: EnvOverrides) {
+  // 값이 빈 파일 항목은 저장하지 않음
+  const cleaned: EnvOverrides = {}
+  for (const [target, vars] of Object.entries(overrides)) {
+    if (Object.keys(vars).length > 0) cleaned[target] = vars
+  }
+  fs.mkdirSync(path.dirname(overridesPath()), { recursive: true })
+  fs.writeFileSync(overridesPath(), JSON.stringify(cleaned, null, 2), 'utf-8')
+}
@@ -0,0 +1,65 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import path from 'path'
+import type { ErrorCatalog, ErrorCode, LaunchError, LaunchStatus } from '../shared/types'
+
+// 실행 단계에서 원인이 분명한 실패 (코드는 렌더러의 해결 방법 안내와 연결됨)
+export class LaunchFailure extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly cause?: unknown) {
+    super(message)
+    this.name = 'LaunchFailure'
+  }
+}
+
+// Node 시스템 에러 코드 → 실패 코드
+const SYSTEM_ERROR_CODES: Record<string, ErrorCode> = {
+  EACCES: 'PERMISSION_DENIED',
+  EPERM: 'PERMISSION_DENIED',
+  EROFS: 'PERMISSION_DENIED',
+  ENOSPC: 'DISK_FULL',
+  EADDRINUSE: 'PORT_IN_USE',
+  ENOTFOUND: 'NETWORK_ERROR',
+  EAI_AGAIN: 'NETWORK_ERROR',
+  ECONNREFUSED: 'NETWORK_ERROR',
+  ECONNRESET: 'NETWORK_ERROR',
+  ETIMEDOUT: 'NETWORK_ERROR'
+}
+
+export function errorCodeOf(err: unknown): ErrorCode {
+  if (err instanceof LaunchFailure) return err.code
+  const code = (err as any)?.code
+  if (code === 'READINESS_TIMEOUT') return code
+  return SYSTEM_ERROR_CODES[code] ?? 'UNKNOWN'
+}
+
+// 단계별 실패를 코드로 감쌈 (이미 원인이 분명한 에러는 그대로 둠)
+export async function withCode<T>(code: ErrorCode, task: Promise<T>): Promise<T> {
+  try {
+    return await task
+  } catch (err: any) {
+    if (err instanceof LaunchFailure || SYSTEM_ERROR_CODES[err?.code]) throw err
+    throw new LaunchFailure(code, err?.message || String(err), err)
+  }
+}
+
+export function toLaunchError(err: unknown, step: LaunchStatus['step'], logExcerpt: string[]): LaunchError {
+  return {
+    code: errorCodeOf(err),
+    message: (err as any)?.message || String(err),
+    step,
+    logExcerpt
+  }
+}
+
+function catalogPath(): string {
+  return path.join(app.getPath('userData'), 'error-catalog.json')
+}
+
+// IT 담당자가 고친 안내 문구 (없으면 기본 카탈로그만 사용)
+export function loadErrorCatalogOverrides(): ErrorCatalog {
+  try {
+    return JSON.parse(fs.readFileSync(catalogPath(), 'utf-8'))
+  } catch {
+    return {}
+  }
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import path from 'path'
+import type { HostsStatus } from '../shared/types'
+
+// 런처가 추가한 줄은 이 표시 사이에만 두고, 사용자가 직접 쓴 줄은 건드리지 않음
+const BLOCK_BEGIN = '# >>> mozu-launcher >>>'
+const BLOCK_END = '# <<< mozu-launcher <<<'
+const MANAGED_ENTRIES: { ip: string; host: string }[] = [
+  { ip: '127.0.0.1', host: 'admin.localhost' }
+]
+
+export type HostsErrorCode = 'MALFORMED_BLOCK' | 'ELEVATION_FAILED' | 'WRITE_FAILED'
+
+export class HostsFileError extends Error {
+  constructor(readonly code: HostsErrorCode, message: string) {
+    super(message)
+    this.name = 'HostsFileError'
+  }
+}
+
+export type HostsManagerOptions = {
+  filePath?: string;        // dry-run이면 시스템 hosts 대신 이 파일을 사용
+  dryRun?: boolean;         // 관리자 권한 요청 없이 filePath에 바로 씀
+  runElevated: (cmd: string, args: string[]) => Promise<string>;
+  log?: (line: string) => void;
+}
+
+export type HostsManager = {
+  status: () => Promise<HostsStatus>;
+  install: () => Promise<HostsStatus>;
+  remove: () => Promise<HostsStatus>;
+}
+
+export function systemHostsPath(): string {
+  return process.platform === 'win32'
+    ? path.join(process.env.SystemRoot || 'C:\\Windows', 'System32', 'drivers', 'etc', 'hosts')
+    : '/etc/hosts'
+}
+
+type ParsedHosts = {
+  lines: string[];
+  eol: string;
+  block: { begin: number; end: number } | null;
+}
+
+function parse(content: string): ParsedHosts {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const lines = content.split(/\r?\n/)
+  const begin = lines.findIndex((line) => line.trim() === BLOCK_BEGIN)
+  const end = lines.findIndex((line) => line.trim() === BLOCK_END)
+
+  if (begin === -1 && end === -1) return { lines, eol, block: null }
+  if (begin === -1 || end === -1 || end < begin) {
+    throw new HostsFileError('MALFORMED_BLOCK', 'hosts 파일의 런처 관리 구역이 손상되었습니다. 표시 줄을 직접 정리해주세요.')
+  }
+  return { lines, eol, block: { begin, end } }
+}
+
+// 주석을 뺀 줄에서 호스트가 루프백 주소로 연결되어 있는지 확인
+function maps(lines: string[], host: string): boolean {
+  return lines.some((line) => {
+    const [ip, ...hosts] = line.replace(/#.*/, '').trim().split(/\s+/)
+    return (ip === '::1' || ip?.startsWith('127.')) && hosts.includes(host)
+  })
+}
+
+function withoutBlock(parsed: ParsedHosts): string[] {
+  if (!parsed.block) return parsed.lines
+  return [...parsed.lines.slice(0, parsed.block.begin), ...parsed.lines.slice(parsed.block.end + 1)]
+}
+
+function trimTrailingBlank(lines: string[]): string[] {
+  const trimmed = [...lines]
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].trim() === '') trimmed.pop()
+  return trimmed
+}
+
+function render(lines: string[], eol: string): string {
+  return trimTrailingBlank(lines).join(eol) + eol
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/'/g, process.platform === 'win32' ? "''" : `'\\''`)}'`
+}
+
+// 임시 파일에 새 내용을 쓰고, 관리자 권한으로 hosts 위치에 복사
+function elevatedCopyCommand(source: string, target: string): { cmd: string; args: string[] } {
+  if (process.platform === 'win32') {
+    const inner = `Copy-Item -LiteralPath ${quote(source)} -Destination ${quote(target)} -Force`
+    const outer = `Start-Process powershell -Verb RunAs -Wait -WindowStyle Hidden -ArgumentList '-NoProfile','-Command',"${inner.replace(/"/g, '`"')}"`
+    return { cmd: 'powershell', args: ['-NoProfile', '-Command', outer] }
+  }
+  if (process.platform === 'darwin') {
+    const script = `cp ${quote(source)} ${quote(target)}`
+    return { cmd: 'osascript', args: ['-e', `do shell script "${script.replace(/"/g, '\\"')}" with administrator privileges`] }
+  }
+  return { cmd: 'pkexec', args: ['cp', source, target] }
+}
+
+export function createHostsManager(options: HostsManagerOptions): HostsManager {
+  const filePath = options.filePath || systemHostsPath()
+  const dryRun = !!options.dryRun
+  const log = options.log ?? (() => {})
+
+  const read = async (): Promise<string> => {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8')
+    } catch (err: any) {
+      // dry-run 대상 파일은 처음에 없을 수 있음
+      if (err?.code === 'ENOENT' && dryRun) return ''
+      throw err
+    }
+  }
+
+  const write = async (content: string) => {
+    if (dryRun) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.promises.writeFile(filePath, content)
+      log(`[hosts] (dry-run) wrote ${filePath}`)
+      return
+    }
+
+    try {
+      await fs.promises.writeFile(filePath, content)
+      return
+    } catch (err: any) {
+      if (err?.code !== 'EACCES' && err?.code !== 'EPERM') {
+        throw new HostsFileError('WRITE_FAILED', `hosts 파일을 쓰지 못했습니다: ${err?.message || err}`)
+      }
+    }
+
+    log('[hosts] Administrator permission required, requesting elevation...')
+    const temp = path.join(os.tmpdir(), `mozu-hosts-${process.pid}-${Date.now()}`)
+    await fs.promises.writeFile(temp, content)
+    try {
+      const { cmd, args } = elevatedCopyCommand(temp, filePath)
+      await options.runElevated(cmd, args)
+    } catch (err: any) {
+      throw new HostsFileError('ELEVATION_FAILED', `관리자 권한을 얻지 못해 hosts 파일을 바꾸지 못했습니다: ${err?.message || err}`)
+    } finally {
+      fs.rmSync(temp, { force: true })
+    }
+  }
+
+  const status = async (): Promise<HostsStatus> => {
+    const base = { path: filePath, dryRun }
+    try {
+      const parsed = parse(await read())
+      const managedLines = parsed.block ? parsed.lines.slice(parsed.block.begin + 1, parsed.block.end) : []
+      return {
+        ...base,
+        mapped: MANAGED_ENTRIES.every((entry) => maps(parsed.lines, entry.host)),
+        managed: MANAGED_ENTRIES.every((entry) => maps(managedLines, entry.host))
+      }
+    } catch (err: any) {
+      return { ...base, mapped: false, managed: false, error: err?.message || String(err) }
+    }
+  }
+
+  // 기존 관리 구역을 새로 쓴 구역으로 교체 (여러 번 실행해도 한 구역만 남음)
+  const install = async (): Promise<HostsStatus> => {
+    const parsed = parse(await read())
+    const block = [BLOCK_BEGIN, ...MANAGED_ENTRIES.map((e) => `${e.ip}\t${e.host}`), BLOCK_END]
+    const rest = trimTrailingBlank(withoutBlock(parsed))
+    await write(render(rest.length > 0 ? [...rest, '', ...block] : block, parsed.eol))
+    log(`[hosts] Added ${MANAGED_ENTRIES.map((e) => e.host).join(', ')} to ${filePath}`)
+    return status()
+  }
+
+  const remove = async (): Promise<HostsStatus> => {
+    const parsed = parse(await read())
+    if (!parsed.block) return status()
+    await write(render(withoutBlock(parsed), parsed.eol))
+    log(`[hosts] Removed launcher entries from ${filePath}`)
+    return status()
+  }
+
+  return { status, install, remove }
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import path from 'path'
+
+// node_modules 안에 두어 node_modules가 지워지면 자동으로 무효화되도록 함
+const STAMP_FILE = '.mozu-install-stamp.json'
+const LOCKFILES = ['yarn.lock', 'package-lock.json', 'pnpm-lock.yaml', 'npm-shrinkwrap.json']
+const SKIP_DIRS = new Set(['node_modules', '.git', 'dist', 'build', '.yarn'])
+const MAX_DEPTH = 3
+
+type InstallStamp = {
+  hash: string;
+  command: string;
+  installedAt: string;
+}
+
+// 워크스페이스 구조(packages/*)까지 포함해 package.json 파일들을 수집
+function findManifests(dir: string, depth: number = 0): string[] {
+  const found: string[] = []
+  let entries: fs.Dirent[]
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return found
+  }
+
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name === 'package.json') {
+      found.push(path.join(dir, entry.name))
+    } else if (entry.isDirectory() && depth < MAX_DEPTH && !SKIP_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+      found.push(...findManifests(path.join(dir, entry.name), depth + 1))
+    }
+  }
+  return found
+}
+
+// 락파일과 package.json 내용으로 의존성 해시 계산
+export function computeDepsHash(projectDir: string): string {
+  const hash = crypto.createHash('sha256')
+  const files = [
+    ...LOCKFILES.map((name) => path.join(projectDir, name)).filter((file) => fs.existsSync(file)),
+    ...findManifests(projectDir)
+  ].sort()
+
+  for (const file of files) {
+    hash.update(path.relative(projectDir, file).split(path.sep).join('/'))
+    hash.update('\0')
+    hash.update(fs.readFileSync(file))
+    hash.update('\0')
+  }
+  return hash.digest('hex')
+}
+
+function stampPath(projectDir: string): string {
+  return path.join(projectDir, 'node_modules', STAMP_FILE)
+}
+
+function readStamp(projectDir: string): InstallStamp | null {
+  try {
+    return JSON.parse(fs.readFileSync(stampPath(projectDir), 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+// 마지막 설치 이후 의존성이 바뀌지 않았고 node_modules가 남아 있으면 true
+export function isInstallFresh(projectDir: string, command: string): boolean {
+  const stamp = readStamp(projectDir)
+  if (!stamp || stamp.command !== command) return false
+  return stamp.hash === computeDepsHash(projectDir)
+}
+
+export function writeInstallStamp(projectDir: string, command: string) {
+  const stamp: InstallStamp = {
+    hash: computeDepsHash(projectDir),
+    command,
+    installedAt: new Date().toISOString()
+  }
+  fs.mkdirSync(path.dirname(stampPath(projectDir)), { recursive: true })
+  fs.writeFileSync(stampPath(projectDir), JSON.stringify(stamp, null, 2), 'utf-8')
+}
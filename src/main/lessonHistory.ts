@@ -0,0 +1,148 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as crypto from 'crypto'
+import path from 'path'
+import type { ErrorCode, LaunchStatus, LessonRecord } from '../shared/types'
+
+// 오래된 기록은 개수 기준으로 버림 (한 학기 수업을 충분히 담는 정도)
+const MAX_RECORDS = 500
+
+type Step = LaunchStatus['step']
+
+export type LessonRecorder = {
+  step: (step: Step) => void;
+  revision: (sha: string) => void;
+  clients: (count: number) => void;
+  // error가 있으면 실패, 없으면 running까지 갔는지에 따라 완료/취소로 기록 (두 번째 호출부터는 무시)
+  finish: (error?: { code: ErrorCode; step: Step }) => void;
+}
+
+function storePath(): string {
+  return path.join(app.getPath('userData'), 'lesson-history.json')
+}
+
+function readStore(): LessonRecord[] {
+  try {
+    const records = JSON.parse(fs.readFileSync(storePath(), 'utf-8'))
+    return Array.isArray(records) ? records : []
+  } catch {
+    return []
+  }
+}
+
+function writeStore(records: LessonRecord[]) {
+  fs.mkdirSync(path.dirname(storePath()), { recursive: true })
+  fs.writeFileSync(storePath(), JSON.stringify(records.slice(-MAX_RECORDS), null, 2), 'utf-8')
+}
+
+function saveRecord(record: LessonRecord, log: (line: string) => void) {
+  try {
+    const records = readStore().filter((r) => r.id !== record.id)
+    writeStore([...records, record])
+  } catch (err: any) {
+    // 기록을 못 남겨도 수업 실행은 계속
+    log(`[history:err] Failed to save lesson history: ${err?.message || err}`)
+  }
+}
+
+// 최신 수업이 앞에 오도록 정렬
+export function listLessonHistory(): LessonRecord[] {
+  return readStore().sort((a, b) => b.startedAt - a.startedAt)
+}
+
+// 런처가 수업 종료 없이 꺼졌던 기록 (앱 시작 시에는 실행 중인 수업이 없음)
+export function markInterruptedLessons() {
+  const records = readStore()
+  if (!records.some((r) => r.outcome === 'running')) return
+  writeStore(records.map((r) => r.outcome === 'running' ? { ...r, outcome: 'interrupted' } : r))
+}
+
+// 단계가 바뀔 때와 끝날 때만 파일에 씀 (최대 접속 기기 수는 그때 함께 저장)
+export function startLessonRecord(init: Pick<LessonRecord, 'sessionId' | 'repoUrl' | 'version' | 'mode'>, log: (line: string) => void = () => {}): LessonRecorder {
+  const record: LessonRecord = {
+    ...init,
+    id: crypto.randomUUID(),
+    host: os.hostname(),
+    startedAt: Date.now(),
+    steps: [],
+    peakClients: 0,
+    outcome: 'running'
+  }
+  let current: { step: Step; since: number } | null = null
+  let finished = false
+
+  const closeStep = (now: number) => {
+    if (current) record.steps.push({ step: current.step, durationMs: now - current.since })
+    current = null
+  }
+
+  saveRecord(record, log)
+
+  return {
+    step(step) {
+      if (finished || step === current?.step) return
+      const now = Date.now()
+      closeStep(now)
+      // error/idle은 단계가 아니라 결과로 기록
+      if (step !== 'error' && step !== 'idle') current = { step, since: now }
+      if (step === 'running' && !record.runningAt) record.runningAt = now
+      saveRecord(record, log)
+    },
+
+    revision(sha) {
+      record.revision = sha
+    },
+
+    clients(count) {
+      record.peakClients = Math.max(record.peakClients, count)
+    },
+
+    finish(error) {
+      if (finished) return
+      finished = true
+      const now = Date.now()
+      closeStep(now)
+      record.stoppedAt = now
+      if (error) {
+        record.outcome = 'failed'
+        record.errorCode = error.code
+        record.errorStep = error.step
+      } else {
+        record.outcome = record.runningAt ? 'completed' : 'cancelled'
+      }
+      saveRecord(record, log)
+    }
+  }
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const STEP_COLUMNS: Step[] = ['checking-tools', 'preparing', 'cloning', 'installing', 'building', 'starting', 'running']
+
+// 엑셀에서 한글이 깨지지 않도록 BOM을 붙임, 단계별 시간은 초 단위 (같은 단계를 여러 번 거치면 합산)
+export function lessonHistoryCsv(records: LessonRecord[]): string {
+  const iso = (time?: number) => time ? new Date(time).toISOString() : undefined
+  const header = ['started_at', 'stopped_at', 'host', 'session', 'version', 'revision', 'mode', 'outcome', 'error_code', 'error_step', 'peak_clients', ...STEP_COLUMNS.map((step) => `${step}_sec`)]
+  const rows = records.map((r) => [
+    iso(r.startedAt),
+    iso(r.stoppedAt),
+    r.host,
+    r.sessionId,
+    r.version,
+    r.revision,
+    r.mode,
+    r.outcome,
+    r.errorCode,
+    r.errorStep,
+    r.peakClients,
+    ...STEP_COLUMNS.map((step) => {
+      const timings = r.steps.filter((t) => t.step === step)
+      return timings.length > 0 ? Math.round(timings.reduce((sum, t) => sum + t.durationMs, 0) / 1000) : undefined
+    })
+  ])
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,65 @@
+import type { LogEntry, LogLevel } from '../shared/types'
+
+type LogBufferOptions = {
+  capacity: number;                          // 이보다 오래된 항목은 덮어씀
+  flushIntervalMs: number;                   // 새 항목을 모아서 보내는 주기
+  onFlush: (entries: LogEntry[]) => void;
+  nextSeq?: () => number;                    // 여러 버퍼가 seq를 나눠 쓸 때 (렌더러에서 합쳐 보여주기 위해)
+}
+
+export type LogBuffer = {
+  append: (level: LogLevel, source: string, text: string) => LogEntry;
+  history: () => LogEntry[];
+  clear: () => void;
+}
+
+// 고정 크기 링 버퍼, 새 항목은 flushIntervalMs마다 한 번에 onFlush로 전달
+export function createLogBuffer(options: LogBufferOptions): LogBuffer {
+  const slots: (LogEntry | undefined)[] = new Array(options.capacity)
+  // 슬롯 위치는 seq와 별개로 기록한 순서대로 셈 (seq를 공유하면 번호가 건너뛸 수 있음)
+  let written = 0
+  let oldest = 0
+  let ownSeq = 0
+  const nextSeq = options.nextSeq ?? (() => ownSeq++)
+  let pending: LogEntry[] = []
+  let timer: NodeJS.Timeout | null = null
+
+  const flush = () => {
+    timer = null
+    const batch = pending
+    pending = []
+    if (batch.length > 0) options.onFlush(batch)
+  }
+
+  return {
+    append(level, source, text) {
+      const entry: LogEntry = { seq: nextSeq(), time: Date.now(), level, source, text }
+      slots[written % options.capacity] = entry
+      written++
+      oldest = Math.max(oldest, written - options.capacity)
+
+      pending.push(entry)
+      // 전송 전에 버퍼에서 밀려난 항목은 보내지 않음
+      if (pending.length > options.capacity) pending = pending.slice(-options.capacity)
+      if (!timer) timer = setTimeout(flush, options.flushIntervalMs)
+      return entry
+    },
+
+    history() {
+      const entries: LogEntry[] = []
+      for (let index = oldest; index < written; index++) {
+        entries.push(slots[index % options.capacity]!)
+      }
+      return entries
+    },
+
+    // seq는 초기화하지 않아 렌더러가 이전 항목과 헷갈리지 않음
+    clear() {
+      if (timer) clearTimeout(timer)
+      timer = null
+      pending = []
+      slots.fill(undefined)
+      oldest = written
+    }
+  }
+}
@@ -1,35 +1,189 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron'
+import { app, BrowserWindow, ipcMain, dialog, shell, screen } from 'electron'
 import path from 'path'
 import { URL } from 'url'
+import type * as http from 'http'
 import { spawn } from 'child_process'
-import type { RepoConfig, LaunchStatus } from '../shared/types'
+import type { RepoConfig, LaunchStatus, ServiceStep, PortMap, EnvOverrides, ServerProfile, LauncherSettings, LogBatch, LogLevel, PreflightReport, ConnectedClient, SessionStatuses } from '../shared/types'
 import * as fs from 'fs'
 import * as os from 'os'
+import * as net from 'net'
+import { allocatePorts, DEFAULT_STUDENT_PORT, DEFAULT_ADMIN_PORT } from './ports'
+import { waitForReady, probeUrl } from './readiness'
+import { supervise, killChild, type Supervisor } from './supervisor'
+import { serveStatic, closeServer } from './staticServer'
+import { isInstallFresh, writeInstallStamp } from './installCache'
+import { getLastGoodRevision, recordGoodRevision } from './revisions'
+import { syncRepository, currentRevision, listRemoteRefs, isSupportedRepoUrl, type GitRunner } from './repoSync'
+import { DEFAULT_ENV_FILES, renderEnvFiles, writeEnvFiles, loadEnvOverrides, saveEnvOverrides } from './envTemplates'
+import { listProfiles, getProfile, saveProfile, deleteProfile, selectProfile } from './serverProfiles'
+import { loadSettings, saveSettings, exportSettings, importSettings } from './settings'
+import { createLogBuffer, type LogBuffer } from './logBuffer'
+import { createSessionLog, type SessionLog } from './sessionLog'
+import { buildDiagnosticsBundle } from './diagnostics'
+import { LaunchFailure, withCode, toLaunchError, loadErrorCatalogOverrides } from './errors'
+import { runPreflight, type PreflightInput } from './preflight'
+import { createHostsManager } from './hostsFile'
+import { listInterfaces, pickAddress, watchAddress, isOwnAddress } from './network'
+import { activeClientCount, createStudentProxy, type StudentProxy } from './studentProxy'
+import { startMdnsAdvertiser, type MdnsAdvertiser } from './mdns'
+import { createAccessGate, randomLessonPin, type AccessGate } from './accessControl'
+import { ensureCertificates, ensureCertificateAuthority, type TlsMaterial } from './certificates'
+import { createCancellation, LaunchCancelledError, type CancelToken } from './cancellation'
+import { startLessonRecord, listLessonHistory, markInterruptedLessons, lessonHistoryCsv, type LessonRecorder } from './lessonHistory'
 
 const isDev = !app.isPackaged
 
 let mainWindow: BrowserWindow | null = null
+// 교실 프로젝터용 학생 안내 창
+let projectorWindow: BrowserWindow | null = null
+
+// 수업 세션 하나 (반이나 수업 버전마다 작업 폴더, 포트, 프로세스, 로그를 따로 가짐)
+type Session = {
+  id: string;
+  status: LaunchStatus;
+  logs: LogBuffer;
+  log: (line: string) => void;
+  // 실행마다 새 파일 (수업 종료 시 닫음)
+  sessionLog: SessionLog | null;
+  // 실행마다 수업 기록 하나 (단계별 시간, 최대 접속 기기, 결과)
+  history: LessonRecorder | null;
+  frontend: Supervisor | null;
+  backend: Supervisor | null;
+  staticServers: http.Server[];
+  // 진행 중인 실행 (수업 종료 시 취소하고 끝날 때까지 기다림)
+  launch: { cancel: () => void; done: Promise<unknown> } | null;
+  // 수업 중 로컬 IP가 바뀌는지 감시 (학생 주소와 .env.local에 들어간 주소가 달라짐)
+  ipWatcher: { stop: () => void } | null;
+  // 학생용 사이트 앞의 역방향 프록시 (접속한 기기 집계)
+  studentProxy: StudentProxy | null;
+  // 학생용 프록시의 접속 제한 (수업 PIN은 실행 중에도 바꿀 수 있음)
+  accessGate: AccessGate | null;
+  // HTTPS 모드에서 관리자 사이트와 로컬 백엔드 앞에 두는 TLS 프록시
+  tlsFronts: StudentProxy[];
+  // 학생용 사이트를 <이름>.local로 광고 (설정에서 이름을 지정한 경우만)
+  mdns: MdnsAdvertiser | null;
+  // 진단 정보 내보내기에서 .env.local을 찾을 위치 (이 세션의 마지막 실행 기준)
+  envFiles: { frontendDir: string; targets: string[] } | null;
+}
 
-// Orchestrator functionality moved to main process
-type Proc = { proc: ReturnType<typeof spawn> | null, cwd: string }
-let workspace: string
-let status: LaunchStatus = { step: 'idle', logs: [] }
-let frontend: Proc | null = null
+// 실행 중인 수업 세션 (종료하면 목록에서 빠짐)
+const sessions = new Map<string, Session>()
+// 기존 작업 폴더를 그대로 쓰는 첫 번째 세션
+const DEFAULT_SESSION_ID = 'main'
+// 작업 폴더 이름과 mDNS 이름에 그대로 들어가므로 짧은 영문/숫자만 허용
+const SESSION_ID = /^[a-z0-9][a-z0-9-]{0,15}$/
+
+const DEFAULT_BACKEND_PORT = 8080
+// 프록시 뒤의 실제 서버는 공개 포트 + 100부터 찾음
+const INTERNAL_PORT_OFFSET = 100
+const BACKEND_HEALTH_TIMEOUT_MS = 180000
+// 저사양 PC에서 vite 첫 컴파일이 오래 걸리는 것을 감안
+const FRONTEND_READY_TIMEOUT_MS = 180000
+// 프론트엔드/백엔드 비정상 종료 시 재시작 정책 (1s, 2s, 4s ... 최대 30s)
+const FRONTEND_MAX_RESTARTS = 5
+const FRONTEND_RESTART_BASE_DELAY_MS = 1000
+const FRONTEND_RESTART_MAX_DELAY_MS = 30000
+const FRONTEND_STABLE_AFTER_MS = 60000
+// 로그는 최근 항목만 보관하고 렌더러에는 새 항목만 묶어서 전송
+const LOG_CAPACITY = 5000
+const LOG_FLUSH_INTERVAL_MS = 100
+// 실패 시 함께 보여줄 최근 로그 줄 수
+const LOG_EXCERPT_LINES = 40
 
-// Initialize workspace
-if (process.platform === 'win32') {
-  workspace = 'C:\\mozu-onpremise-workspace'
-} else {
-  workspace = path.join(app.getPath('userData'), 'workspace')
+/** ---------- utils: 로그 전달 ---------- */
+function sendStatus(session: Session) {
+  for (const win of [mainWindow, projectorWindow]) {
+    if (win && !win.isDestroyed()) {
+      win.webContents.send('status-update', { sessionId: session.id, status: session.status })
+    }
+  }
 }
 
-/** ---------- utils: 로그 전달 ---------- */
-function sendStatus(statusUpdate: any) {
+function sendClients(sessionId: string, clients: ConnectedClient[]) {
   if (mainWindow && !mainWindow.isDestroyed()) {
-    mainWindow.webContents.send('status-update', statusUpdate)
+    mainWindow.webContents.send('clients-update', { sessionId, clients })
+  }
+}
+
+function sendLogs(batch: LogBatch) {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('log-entries', batch)
+  }
+}
+
+// 모든 로그 버퍼가 seq를 나눠 써서 렌더러가 런처 로그와 세션 로그를 한 목록으로 합칠 수 있음
+let logSeq = 0
+const nextLogSeq = () => logSeq++
+
+function createLogs(sessionId: string): LogBuffer {
+  return createLogBuffer({
+    capacity: LOG_CAPACITY,
+    flushIntervalMs: LOG_FLUSH_INTERVAL_MS,
+    nextSeq: nextLogSeq,
+    onFlush: (entries) => sendLogs({ sessionId, entries })
+  })
+}
+
+// 특정 세션에 속하지 않는 로그 (hosts 파일, 인증서 내보내기 등)
+const launcherLogs = createLogs('')
+
+function createSession(id: string): Session {
+  const session: Session = {
+    id,
+    status: { step: 'idle' },
+    logs: createLogs(id),
+    log: (line) => logMessage(line, session),
+    sessionLog: null,
+    history: null,
+    frontend: null,
+    backend: null,
+    staticServers: [],
+    launch: null,
+    ipWatcher: null,
+    studentProxy: null,
+    accessGate: null,
+    tlsFronts: [],
+    mdns: null,
+    envFiles: null
+  }
+  return session
+}
+
+function sessionOf(sessionId: unknown): Session {
+  const id = typeof sessionId === 'string' && sessionId ? sessionId : DEFAULT_SESSION_ID
+  if (!SESSION_ID.test(id)) throw new Error(`잘못된 수업 세션 ID입니다: ${id}`)
+  let session = sessions.get(id)
+  if (!session) {
+    session = createSession(id)
+    sessions.set(id, session)
+  }
+  return session
+}
+
+function sessionStatuses(): SessionStatuses {
+  return Object.fromEntries([...sessions.values()].map((session) => [session.id, session.status]))
+}
+
+// 다른 세션이 이미 배정받은 포트 (새 세션은 이 포트들을 건너뜀)
+function portsInUse(except: Session): Set<number> {
+  const taken = new Set<number>()
+  for (const session of sessions.values()) {
+    if (session === except || !session.status.ports) continue
+    for (const port of Object.values(session.status.ports)) {
+      if (port) taken.add(port)
+    }
   }
+  return taken
 }
 
+// MOZU_HOSTS_FILE을 지정하면 시스템 hosts 대신 그 파일에 쓰는 dry-run 모드 (테스트용)
+const hosts = createHostsManager({
+  filePath: process.env.MOZU_HOSTS_FILE,
+  dryRun: !!process.env.MOZU_HOSTS_FILE,
+  runElevated: (cmd, args) => execCapture(cmd, args, os.homedir()),
+  log: logMessage
+})
+
 /** ---------- Orchestrator functions moved to main ---------- */
 function envWithDefaultPath(extraEnv: Record<string,string> = {}) {
   if (process.platform === 'win32') {
@@ -54,33 +208,60 @@ function envWithDefaultPath(extraEnv: Record<string,string> = {}) {
   return { ...process.env, ...extraEnv }
 }
 
-function updateStatus(partial: Partial<LaunchStatus>, notify?: (s: LaunchStatus) => void) {
-  status = { ...status, ...partial, logs: partial.logs ?? status.logs }
-  if (notify) notify(status)
+function updateStatus(session: Session, partial: Partial<LaunchStatus>) {
+  if (partial.step) session.history?.step(partial.step)
+  session.status = { ...session.status, ...partial }
+  sendStatus(session)
 }
 
-function updateClient(step: 'idle' | 'preparing' | 'cloning' | 'installing' | 'building' | 'starting' | 'running' | 'error', message?: string, notify?: (s: LaunchStatus) => void) {
-  status = {
-    ...status,
-    client: { step, message }
+function updateClient(session: Session, step: ServiceStep, message?: string, restarts?: number) {
+  session.status = {
+    ...session.status,
+    client: { step, message, restarts: restarts ?? session.status.client?.restarts }
   }
-  if (notify) notify(status)
+  sendStatus(session)
 }
 
-function logMessage(line: string, notify?: (s: LaunchStatus) => void) {
-  const logs = status.logs ? [...status.logs, line] : [line]
-  updateStatus({ logs }, notify)
+function updateServer(session: Session, step: ServiceStep, message?: string) {
+  session.status = {
+    ...session.status,
+    server: { step, message }
+  }
+  sendStatus(session)
 }
 
-async function execChecked(cmd: string, args: string[], opts: any) {
-  return new Promise<void>((resolve, reject) => {
-    // Windows에서 .cmd 파일 실행 시 shell 옵션 설정
-    const isWindows = process.platform === 'win32'
-    const needsShell = isWindows && cmd.endsWith('.cmd')
+// '[source] text' 또는 '[source:err] text' 형식의 줄을 구조화된 항목으로 기록
+// 여러 줄 출력(프로세스 stdout 등)은 줄마다 한 항목이 됨
+const LOG_PREFIX = /^\[([\w.-]+?)(?::(err|error))?\]\s?/
 
-    const p = spawn(cmd, args, { stdio: 'ignore', ...opts, shell: needsShell })
+// session이 없으면 런처 전체 로그로 기록
+function logMessage(line: string, session?: Session) {
+  const match = LOG_PREFIX.exec(line)
+  const source = match ? match[1] : 'launcher'
+  const body = match ? line.slice(match[0].length) : line
+
+  let level: LogLevel = 'info'
+  if (match?.[2] === 'error' || body.includes('✗')) level = 'error'
+  else if (match?.[2] === 'err') level = 'warn'
+
+  for (const text of body.split(/\r?\n/)) {
+    if (!text.trim()) continue
+    const entry = (session?.logs ?? launcherLogs).append(level, source, text.trimEnd())
+    session?.sessionLog?.write(entry)
+  }
+}
+
+// 출력을 로그로 보내지 않고 문자열로 돌려받아야 할 때 사용 (git rev-parse 등)
+async function execCapture(cmd: string, args: string[], cwd: string): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const needsShell = process.platform === 'win32' && cmd.endsWith('.cmd')
+    const p = spawn(cmd, args, { cwd, shell: needsShell, env: envWithDefaultPath() })
+    let out = ''
+    let err = ''
+    p.stdout?.on('data', (d) => { out += d.toString() })
+    p.stderr?.on('data', (d) => { err += d.toString() })
     p.on('error', reject)
-    p.on('exit', (code) => code === 0 ? resolve() : reject(new Error(`${cmd} exited with ${code}`)))
+    p.on('exit', (code) => code === 0 ? resolve(out.trim()) : reject(new Error(err.trim() || `${cmd} exited with ${code}`)))
   })
 }
 
@@ -88,10 +269,11 @@ async function execStream(
   cmd: string,
   args: string[],
   cwd: string,
-  notify?: (s: LaunchStatus) => void,
-  shell: boolean = false,
-  env: Record<string,string> = {}
+  source: string,
+  options: { shell?: boolean; env?: Record<string,string>; token?: CancelToken; log?: (line: string) => void } = {}
 ) {
+  const { shell = false, env = {}, token, log = logMessage } = options
+  token?.throwIfCancelled()
   return new Promise<void>((resolve, reject) => {
     // Windows에서 인코딩 문제 해결을 위한 환경변수 설정
     const processEnv = process.platform === 'win32'
@@ -102,16 +284,22 @@ async function execStream(
     const isWindows = process.platform === 'win32'
     const needsShell = isWindows && (cmd.endsWith('.cmd') || shell)
 
-    const p = spawn(cmd, args, { cwd, shell: needsShell, env: processEnv })
-    logMessage(`[exec] ${cmd} ${args.join(' ')} @ ${path.basename(cwd)}`, notify)
+    // 취소 시 하위 프로세스까지 함께 종료할 수 있도록 POSIX에서는 별도 프로세스 그룹으로 실행
+    const p = spawn(cmd, args, { cwd, shell: needsShell, env: processEnv, detached: !isWindows })
+    log(`[${source}] $ ${cmd} ${args.join(' ')} @ ${path.basename(cwd)}`)
+
+    const unsubscribe = token?.onCancel(() => {
+      log(`[${source}] Cancelling: ${cmd} ${args.join(' ')}`)
+      killChild(p)
+    })
 
     p.stdout?.on('data', (d) => {
       const output = d.toString()
       // Windows에서 인코딩 문제가 있는 경우 처리
       if (process.platform === 'win32' && output.includes('��')) {
-        logMessage(`[out] ${output.replace(/��/g, '').trim()}`, notify)
+        log(`[${source}] ${output.replace(/��/g, '').trim()}`)
       } else {
-        logMessage(`[out] ${output.trim()}`, notify)
+        log(`[${source}] ${output.trim()}`)
       }
     })
 
@@ -119,19 +307,23 @@ async function execStream(
       const error = d.toString()
       // Windows에서 인코딩 문제가 있는 경우 처리
       if (process.platform === 'win32' && error.includes('��')) {
-        logMessage(`[err] ${error.replace(/��/g, '').trim()}`, notify)
+        log(`[${source}:err] ${error.replace(/��/g, '').trim()}`)
       } else {
-        logMessage(`[err] ${error.trim()}`, notify)
+        log(`[${source}:err] ${error.trim()}`)
       }
     })
 
     p.on('error', (e) => {
-      logMessage(`[error] ${e.message}`, notify)
+      unsubscribe?.()
+      log(`[${source}:error] ${e.message}`)
       reject(e)
     })
 
     p.on('exit', (code) => {
-      if (code === 0) {
+      unsubscribe?.()
+      if (token?.cancelled) {
+        reject(new LaunchCancelledError())
+      } else if (code === 0) {
         resolve()
       } else {
         reject(new Error(`Command failed with exit code ${code}`))
@@ -163,12 +355,62 @@ function createWindow() {
 
   mainWindow.on('closed', () => {
     mainWindow = null
-    // Clean up frontend process when window closes
-    stopMockEnvironment()
+    projectorWindow?.close()
+    // Clean up every running session when window closes
+    stopAllSessions()
+  })
+}
+
+// 프로젝터 창은 같은 페이지를 #projector/<세션 ID> 해시로 엶
+function projectorUrl(sessionId: string): string {
+  const hash = `#projector/${sessionId}`
+  if (isDev) return `http://localhost:5173/${hash}`
+  const indexPath = path.join(__dirname, '../renderer/index.html')
+  return `${new URL(`file://${indexPath}`).toString()}${hash}`
+}
+
+// 보조 모니터(프로젝터)가 있으면 그쪽에 전체 화면으로 띄움
+// 이미 열려 있으면 다른 세션을 고른 경우 그 세션의 안내로 바꿈
+function openProjectorWindow(sessionId: string) {
+  if (projectorWindow && !projectorWindow.isDestroyed()) {
+    if (projectorWindow.webContents.getURL() !== projectorUrl(sessionId)) projectorWindow.loadURL(projectorUrl(sessionId))
+    projectorWindow.focus()
+    return
+  }
+
+  const primary = screen.getPrimaryDisplay()
+  const display = screen.getAllDisplays().find((d) => d.id !== primary.id) ?? primary
+  projectorWindow = new BrowserWindow({
+    x: display.bounds.x,
+    y: display.bounds.y,
+    width: display.bounds.width,
+    height: display.bounds.height,
+    fullscreen: true,
+    autoHideMenuBar: true,
+    title: 'Mozu - 학생 접속 안내',
+    backgroundColor: '#ffffff',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      sandbox: false
+    }
+  })
+
+  projectorWindow.loadURL(projectorUrl(sessionId))
+
+  // ESC로 전체 화면 창을 닫을 수 있게 함
+  projectorWindow.webContents.on('before-input-event', (_e, input) => {
+    if (input.type === 'keyDown' && input.key === 'Escape') projectorWindow?.close()
+  })
+  projectorWindow.on('closed', () => {
+    projectorWindow = null
   })
 }
 
 app.whenReady().then(() => {
+  // 손상된 설정 파일은 시작할 때 확인해 런처 로그에 남김
+  loadSettings(logMessage)
+  markInterruptedLessons()
   createWindow()
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) createWindow()
@@ -201,28 +443,215 @@ ipcMain.handle('choose-dir', async () => {
   }
 })
 
-ipcMain.handle('start-mock', async (_e, config: RepoConfig) => {
+ipcMain.handle('start-mock', async (_e, config: RepoConfig, sessionId?: string) => {
   try {
-    return await startMockEnvironment(config, (status) => {
-      sendStatus(status)
-    })
+    return await startMockEnvironment(config, sessionOf(sessionId))
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('start-lesson', async (_e, config: RepoConfig, sessionId?: string) => {
+  try {
+    return await startMockEnvironment(config, sessionOf(sessionId))
   } catch (err: any) {
     return { ok: false, error: err?.message || String(err) }
   }
 })
 
-ipcMain.handle('start-lesson', async (_e, config: RepoConfig) => {
+ipcMain.handle('list-remote-refs', async (_e, repoUrl: string) => {
+  if (typeof repoUrl !== 'string' || !isSupportedRepoUrl(repoUrl)) throw new Error(`지원하지 않는 저장소 주소입니다: ${repoUrl}`)
+  return listRemoteRefs(gitRunner(), repoUrl, os.homedir())
+})
+
+ipcMain.handle('get-last-good-revision', async (_e, repoUrl: string) => {
+  return getLastGoodRevision(repoUrl)?.sha ?? null
+})
+
+// 세션이 실행 중이면 실제 배정된 포트, 아니면 선호 포트 기준으로 미리보기
+ipcMain.handle('preview-env-files', async (_e, config: RepoConfig, sessionId = DEFAULT_SESSION_ID) => {
+  const ports: PortMap = sessions.get(sessionId)?.status.ports ?? {
+    student: config.ports?.student ?? DEFAULT_STUDENT_PORT,
+    admin: config.ports?.admin ?? DEFAULT_ADMIN_PORT,
+    ...(config.backend ? { server: config.backend.port ?? DEFAULT_BACKEND_PORT } : {})
+  }
+  const variables = envVariables(config, ports, getLocalIP(logMessage), getProfile(config.serverProfileId, logMessage), sessionId, logMessage)
+  return renderEnvFiles(config.envFiles ?? DEFAULT_ENV_FILES, variables, loadEnvOverrides())
+})
+
+ipcMain.handle('get-env-overrides', async () => {
+  return loadEnvOverrides()
+})
+
+ipcMain.handle('set-env-overrides', async (_e, overrides: EnvOverrides) => {
+  saveEnvOverrides(overrides)
+  return { ok: true }
+})
+
+// sessionId가 없으면 런처 전체 로그
+ipcMain.handle('get-log-history', async (_e, sessionId?: string) => {
+  if (!sessionId) return launcherLogs.history()
+  return sessions.get(sessionId)?.logs.history() ?? []
+})
+
+ipcMain.handle('export-diagnostics', async () => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-')
+  const result = await dialog.showSaveDialog({
+    title: '진단 정보 내보내기',
+    defaultPath: path.join(app.getPath('desktop'), `mozu-diagnostics-${stamp}.zip`),
+    filters: [{ name: 'Zip', extensions: ['zip'] }]
+  })
+  if (result.canceled || !result.filePath) return { ok: false }
+
   try {
-    return await startMockEnvironment(config, (status) => {
-      sendStatus(status)
+    const settings = loadSettings(logMessage)
+    const launched = [...sessions.values()].filter((session) => session.envFiles)
+      .map((session) => ({ sessionId: session.id, ...session.envFiles! }))
+    // 실행한 세션이 없으면 설정 기준 첫 번째 세션의 폴더를 확인
+    const envFiles = launched.length > 0 ? launched : [{
+      sessionId: DEFAULT_SESSION_ID,
+      frontendDir: path.join(workspaceDirOf({ ...settings.repo, workspaceDir: settings.workspaceDir }), settings.repo.frontend.cwdName || 'frontend'),
+      targets: (settings.repo.envFiles ?? DEFAULT_ENV_FILES).map((f) => f.target)
+    }]
+    const bundle = await buildDiagnosticsBundle({
+      runTool: (cmd, args) => execCapture(cmd, args, os.homedir()),
+      settings,
+      envFiles,
+      statuses: sessionStatuses()
     })
+    fs.writeFileSync(result.filePath, bundle)
+    return { ok: true, path: result.filePath }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('get-lesson-history', async () => {
+  return listLessonHistory()
+})
+
+// failuresOnly면 화면의 "실패한 수업만" 필터와 같은 기록만 내보냄
+ipcMain.handle('export-lesson-history', async (_e, failuresOnly?: boolean) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-')
+  const result = await dialog.showSaveDialog({
+    title: '수업 기록 내보내기',
+    defaultPath: path.join(app.getPath('desktop'), `mozu-lesson-history-${stamp}.csv`),
+    filters: [{ name: 'CSV', extensions: ['csv'] }]
+  })
+  if (result.canceled || !result.filePath) return { ok: false }
+
+  try {
+    const records = listLessonHistory().filter((record) => !failuresOnly || record.outcome === 'failed')
+    fs.writeFileSync(result.filePath, lessonHistoryCsv(records), 'utf-8')
+    return { ok: true, path: result.filePath }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('get-error-catalog', async () => {
+  return loadErrorCatalogOverrides()
+})
+
+ipcMain.handle('get-settings', async () => {
+  return loadSettings(logMessage)
+})
+
+ipcMain.handle('save-settings', async (_e, patch: Partial<LauncherSettings>) => {
+  try {
+    return { ok: true, settings: saveSettings(patch, logMessage) }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('export-settings', async () => {
+  const result = await dialog.showSaveDialog({
+    title: '설정 내보내기',
+    defaultPath: 'mozu-launcher-settings.json',
+    filters: [{ name: 'JSON', extensions: ['json'] }]
+  })
+  if (result.canceled || !result.filePath) return { ok: false }
+
+  try {
+    exportSettings(result.filePath, logMessage)
+    return { ok: true, path: result.filePath }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('import-settings', async () => {
+  const result = await dialog.showOpenDialog({
+    title: '설정 가져오기',
+    properties: ['openFile'],
+    filters: [{ name: 'JSON', extensions: ['json'] }]
+  })
+  if (result.canceled || result.filePaths.length === 0) return { ok: false }
+
+  try {
+    return { ok: true, settings: importSettings(result.filePaths[0]) }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
+  }
+})
+
+ipcMain.handle('list-server-profiles', async () => {
+  return listProfiles(logMessage)
+})
+
+ipcMain.handle('save-server-profile', async (_e, profile: ServerProfile) => {
+  try {
+    return { ok: true, profile: saveProfile(profile, logMessage) }
   } catch (err: any) {
     return { ok: false, error: err?.message || String(err) }
   }
 })
 
-ipcMain.handle('stop-mock', async () => {
-  await stopMockEnvironment()
+ipcMain.handle('delete-server-profile', async (_e, id: string) => {
+  deleteProfile(id, logMessage)
+  return { ok: true }
+})
+
+ipcMain.handle('select-server-profile', async (_e, id: string) => {
+  selectProfile(id, logMessage)
+  return { ok: true }
+})
+
+ipcMain.handle('check-server-profile', async (_e, profile: ServerProfile) => {
+  return probeUrl(profile.serverUrl)
+})
+
+ipcMain.handle('get-hosts-status', async () => {
+  return hosts.status()
+})
+
+ipcMain.handle('install-hosts-entry', async () => {
+  try {
+    return { ok: true, status: await hosts.install() }
+  } catch (err: any) {
+    logMessage(`[hosts:error] ${err?.message || err}`)
+    return { ok: false, error: err?.message || String(err), status: await hosts.status() }
+  }
+})
+
+ipcMain.handle('remove-hosts-entry', async () => {
+  try {
+    return { ok: true, status: await hosts.remove() }
+  } catch (err: any) {
+    logMessage(`[hosts:error] ${err?.message || err}`)
+    return { ok: false, error: err?.message || String(err), status: await hosts.status() }
+  }
+})
+
+// 수업 시작 전에 점검 결과만 미리 확인 (실행은 하지 않음)
+ipcMain.handle('run-preflight', async (_e, config: RepoConfig) => {
+  return runPreflight(preflightInput(config, getProfile(config.serverProfileId, logMessage)))
+})
+
+ipcMain.handle('stop-mock', async (_e, sessionId = DEFAULT_SESSION_ID) => {
+  const session = sessions.get(sessionId)
+  if (session) await stopMockEnvironment(session)
   return { ok: true }
 })
 
@@ -240,6 +669,14 @@ ipcMain.handle('open-external', async (_e, url: string) => {
       throw new Error('URL must start with http:// or https://')
     }
 
+    // admin.localhost가 hosts 파일에 없으면 관리자 사이트가 열리지 않을 수 있음
+    if (url.includes('admin.localhost')) {
+      const hostsStatus = await hosts.status()
+      if (!hostsStatus.mapped) {
+        logMessage(`[hosts:err] admin.localhost is not registered in ${hostsStatus.path}${hostsStatus.error ? ` (${hostsStatus.error})` : ''}`)
+      }
+    }
+
     // 윈도우에서는 localhost 대신 127.0.0.1 사용 (admin.localhost는 제외)
     if (process.platform === 'win32' && url.includes('localhost') && !url.includes('admin.localhost')) {
       url = url.replace(/localhost/g, '127.0.0.1')
@@ -250,27 +687,6 @@ ipcMain.handle('open-external', async (_e, url: string) => {
     if (process.platform === 'win32') {
       console.log('Using Windows cmd start method...')
 
-      // admin.localhost가 포함된 경우 Windows hosts 파일 확인
-      if (url.includes('admin.localhost')) {
-        console.log('Checking Windows hosts file for admin.localhost configuration...')
-        try {
-          const hostsPath = 'C:\\Windows\\System32\\drivers\\etc\\hosts'
-          const hostsContent = fs.readFileSync(hostsPath, 'utf-8')
-
-          if (!hostsContent.includes('admin.localhost')) {
-            console.log('Warning: admin.localhost not found in hosts file')
-            console.log('Admin site may not be accessible. You may need to add:')
-            console.log('127.0.0.1 admin.localhost')
-            console.log('to your hosts file at: ' + hostsPath)
-          } else {
-            console.log('admin.localhost found in hosts file - should work correctly')
-          }
-        } catch (error) {
-          console.log('Could not check hosts file:', error)
-          console.log('If admin.localhost does not work, please add to hosts file: 127.0.0.1 admin.localhost')
-        }
-      }
-
       const { spawn } = await import('child_process')
       // Windows에서 URL을 브라우저에서 열기 위해 start 명령 사용
       // shell: true 옵션으로 URL 파라미터 처리 개선
@@ -290,142 +706,114 @@ ipcMain.handle('open-external', async (_e, url: string) => {
   }
 })
 
-ipcMain.handle('get-local-ip', async () => {
-  const interfaces = os.networkInterfaces()
-  
-  // Wi-Fi나 이더넷 인터페이스에서 IPv4 주소 찾기
-  for (const name of Object.keys(interfaces)) {
-    const iface = interfaces[name]
-    if (!iface) continue
-    
-    for (const alias of iface) {
-      // IPv4이고, 내부 네트워크가 아니고, loopback이 아닌 주소
-      if (alias.family === 'IPv4' && !alias.internal) {
-        return alias.address
-      }
-    }
-  }
-  
-  return 'localhost' // 찾지 못한 경우 기본값
+ipcMain.handle('get-status', async () => {
+  return sessionStatuses()
 })
 
-/** ---------- Mock Environment Functions ---------- */
-async function ensureTools(notify?: (s: LaunchStatus) => void) {
-  const isWindows = process.platform === 'win32'
+ipcMain.handle('open-projector', async (_e, sessionId = DEFAULT_SESSION_ID) => {
+  openProjectorWindow(sessionId)
+  return { ok: true }
+})
 
-  // Windows에서는 where 명령어로 확인, Unix에서는 which 명령어로 확인
-  async function checkTool(toolName: string): Promise<boolean> {
-    try {
-      if (isWindows) {
-        await execStream('where', [toolName], os.homedir(), notify)
-      } else {
-        await execStream('which', [toolName], os.homedir(), notify)
-      }
-      return true
-    } catch {
-      return false
-    }
-  }
+ipcMain.handle('get-clients', async (_e, sessionId = DEFAULT_SESSION_ID) => {
+  return sessions.get(sessionId)?.studentProxy?.clients() ?? []
+})
 
-  // Git 확인
-  logMessage('[tools] Checking Git installation...', notify)
-  const gitFound = await checkTool('git')
-  if (gitFound) {
-    logMessage('[tools] ✓ Git found and working.', notify)
-    // 버전 확인
-    try {
-      await execStream('git', ['--version'], os.homedir(), notify)
-    } catch {
-      // 버전 확인 실패해도 git은 있다고 판단
-    }
-  } else {
-    logMessage('[tools] ✗ Git not found.', notify)
-    throw new Error('Git이 설치되지 않았습니다. https://git-scm.com 에서 다운로드하세요.')
-  }
+ipcMain.handle('export-ca-certificate', async () => {
+  const result = await dialog.showSaveDialog({
+    title: '학생 기기용 인증서 내보내기',
+    defaultPath: path.join(app.getPath('desktop'), 'mozu-local-ca.crt'),
+    filters: [{ name: 'Certificate', extensions: ['crt'] }]
+  })
+  if (result.canceled || !result.filePath) return { ok: false }
 
-  // Node.js 확인
-  logMessage('[tools] Checking Node.js installation...', notify)
-  const nodeFound = await checkTool('node')
-  if (nodeFound) {
-    logMessage('[tools] ✓ Node.js found and working.', notify)
-    // 버전 확인
-    try {
-      await execStream('node', ['--version'], os.homedir(), notify)
-    } catch {
-      // 버전 확인 실패해도 node는 있다고 판단
-    }
-  } else {
-    logMessage('[tools] ✗ Node.js not found.', notify)
-    throw new Error('Node.js가 설치되지 않았습니다. https://nodejs.org 에서 다운로드하세요.')
+  try {
+    fs.writeFileSync(result.filePath, ensureCertificateAuthority(tlsDir(), logMessage).cert)
+    return { ok: true, path: result.filePath }
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
   }
+})
 
-  // yarn 확인 (필수)
-  logMessage('[tools] Checking yarn installation...', notify)
-  const yarnFound = await checkTool('yarn')
-  if (yarnFound) {
-    logMessage('[tools] ✓ Yarn found and working.', notify)
-    try {
-      const yarnCmd = isWindows ? 'yarn.cmd' : 'yarn'
-      await execStream(yarnCmd, ['--version'], os.homedir(), notify)
-    } catch {
-      // 버전 확인 실패해도 yarn은 있다고 판단
-    }
-  } else {
-    logMessage('[tools] ✗ Yarn not found.', notify)
-    const isWindows = process.platform === 'win32'
-    const installMsg = isWindows
-      ? 'Yarn이 설치되지 않았습니다. 다음 중 하나의 방법으로 설치하세요:\n\n1. npm: npm install -g yarn\n2. 공식 설치파일: https://yarnpkg.com/getting-started/install\n3. Chocolatey: choco install yarn'
-      : 'Yarn이 설치되지 않았습니다. 다음 명령으로 설치하세요:\nnpm install -g yarn'
-    throw new Error(installMsg)
+ipcMain.handle('set-lesson-pin', async (_e, sessionId: string, pin: string) => {
+  const session = sessions.get(sessionId)
+  if (!session?.accessGate) return { ok: false, error: '수업이 실행 중일 때만 PIN을 바꿀 수 있습니다.' }
+  try {
+    session.accessGate.setPin(pin)
+  } catch (err: any) {
+    return { ok: false, error: err?.message || String(err) }
   }
+  updateStatus(session, { lessonPin: pin })
+  return { ok: true }
+})
 
-  logMessage('[tools] All required tools are available!', notify)
-}
+ipcMain.handle('get-local-ip', async () => {
+  return getLocalIP(logMessage)
+})
 
-async function installDeps(targetDir: string, command: string, notify?: (s: LaunchStatus) => void) {
+ipcMain.handle('list-network-interfaces', async () => {
+  return listInterfaces()
+})
+
+/** ---------- Mock Environment Functions ---------- */
+async function installDeps(targetDir: string, command: string, session: Session, token?: CancelToken) {
   const [cmd, ...args] = command.split(' ')
   const isWindows = process.platform === 'win32'
 
-  logMessage(`[deps] Installing dependencies using ${command}...`, notify)
+  session.log(`[deps] Installing dependencies using ${command}...`)
 
   if (cmd === 'yarn') {
     const yarnCmd = isWindows ? 'yarn.cmd' : 'yarn'
     if (args.length === 0 || (args.length === 1 && args[0] === 'install')) {
-      logMessage('[deps] Running: yarn install', notify)
-      await execStream(yarnCmd, ['install'], targetDir, notify)
+      session.log('[deps] Running: yarn install')
+      await execStream(yarnCmd, ['install'], targetDir, 'deps', { token, log: session.log })
       return
     }
-    logMessage(`[deps] Running: yarn ${args.join(' ')}`, notify)
-    await execStream(yarnCmd, args, targetDir, notify)
+    session.log(`[deps] Running: yarn ${args.join(' ')}`)
+    await execStream(yarnCmd, args, targetDir, 'deps', { token, log: session.log })
   } else if (cmd === 'npm') {
     const npmCmd = isWindows ? 'npm.cmd' : 'npm'
     if (args.length === 0 || (args.length === 1 && args[0] === 'install')) {
-      logMessage('[deps] Running: npm install', notify)
-      await execStream(npmCmd, ['install'], targetDir, notify)
+      session.log('[deps] Running: npm install')
+      await execStream(npmCmd, ['install'], targetDir, 'deps', { token, log: session.log })
       return
     }
-    logMessage(`[deps] Running: npm ${args.join(' ')}`, notify)
-    await execStream(npmCmd, args, targetDir, notify)
+    session.log(`[deps] Running: npm ${args.join(' ')}`)
+    await execStream(npmCmd, args, targetDir, 'deps', { token, log: session.log })
+  } else {
+    // gradle, mvn 등 yarn/npm 이외의 설치 명령은 셸로 그대로 실행
+    session.log(`[deps] Running: ${command}`)
+    await execStream(cmd, args, targetDir, 'deps', { shell: true, token, log: session.log })
   }
 
-  logMessage('[deps] Dependencies installation completed.', notify)
+  session.log('[deps] Dependencies installation completed.')
 }
 
-async function getLocalIP(): Promise<string> {
-  const interfaces = os.networkInterfaces()
+// 락파일/package.json이 마지막 설치 이후 그대로면 설치를 건너뜀 (설치했으면 true)
+async function installNodeDeps(targetDir: string, command: string, cleanInstall: boolean, session: Session, token?: CancelToken, onInstall?: () => void): Promise<boolean> {
+  const nodeModules = path.join(targetDir, 'node_modules')
 
-  for (const name of Object.keys(interfaces)) {
-    const iface = interfaces[name]
-    if (!iface) continue
+  if (!cleanInstall && fs.existsSync(nodeModules) && isInstallFresh(targetDir, command)) {
+    session.log(`[deps] Dependencies unchanged since last install, skipping (${path.basename(targetDir)}).`)
+    return false
+  }
 
-    for (const alias of iface) {
-      if (alias.family === 'IPv4' && !alias.internal) {
-        return alias.address
-      }
-    }
+  onInstall?.()
+  if (cleanInstall) {
+    session.log(`[deps] Clean reinstall requested, removing ${path.basename(targetDir)}/node_modules...`)
+  } else {
+    session.log(`[deps] Dependencies changed or missing, cleaning up ${path.basename(targetDir)}/node_modules...`)
   }
+  fs.rmSync(nodeModules, { recursive: true, force: true })
+  // 설치 도중 취소되면 스탬프가 남지 않으므로 다음 실행에서 다시 설치함
+  await installDeps(targetDir, command, session, token)
+  writeInstallStamp(targetDir, command)
+  return true
+}
 
-  return 'localhost'
+// 설정에서 고른 인터페이스의 주소 (없으면 가상 어댑터가 아닌 첫 주소)
+function getLocalIP(log: (line: string) => void): string {
+  return pickAddress(loadSettings(log).networkInterface)
 }
 
 async function resolveStartCommand(targetDir: string, requested?: string): Promise<{ cmd: string; args: string[]; label: string }> {
@@ -461,206 +849,657 @@ async function resolveStartCommand(targetDir: string, requested?: string): Promi
   return { cmd: yarnCmd, args: ['dev'], label: 'yarn dev (default)' }
 }
 
-async function startMockEnvironment(config: RepoConfig, notify?: (s: LaunchStatus) => void) {
+// session이 없으면 (원격 브랜치 목록 조회 등) 런처 전체 로그로 기록
+function gitRunner(session?: Session, token?: CancelToken): GitRunner {
+  const log = session?.log ?? ((line: string) => logMessage(line))
+  return {
+    run: (args, cwd) => execStream('git', args, cwd, 'git', { token, log }),
+    capture: async (args, cwd) => {
+      token?.throwIfCancelled()
+      return execCapture('git', args, cwd)
+    },
+    log
+  }
+}
+
+async function prepareBackend(config: RepoConfig, workspaceDir: string, session: Session, token?: CancelToken): Promise<string> {
+  const cfg = config.backend!
+  const backDir = path.join(workspaceDir, cfg.cwdName || 'backend')
+  session.log(`[backend] Backend directory: ${backDir}`)
+
+  updateServer(session, 'cloning', '서버 저장소를 받아오고 있습니다...')
+  await withCode('GIT_SYNC_FAILED', syncRepository(gitRunner(session, token), cfg.url, { branch: cfg.branch, ref: cfg.ref }, backDir, workspaceDir))
+
+  const isNodeProject = fs.existsSync(path.join(backDir, 'package.json'))
+  if (isNodeProject) {
+    await withCode('INSTALL_FAILED', installNodeDeps(backDir, cfg.installCommand || 'yarn install', !!config.cleanInstall, session, token, () => {
+      updateServer(session, 'installing', '서버 의존성을 설치하고 있습니다...')
+    }))
+  } else if (cfg.installCommand) {
+    updateServer(session, 'installing', '서버 의존성을 설치하고 있습니다...')
+    await withCode('INSTALL_FAILED', installDeps(backDir, cfg.installCommand, session, token))
+  } else {
+    session.log('[deps] No install command for backend, skipping.')
+  }
+
+  return backDir
+}
+
+// 백엔드를 띄우고 헬스 체크가 통과할 때까지 기다림
+async function startBackend(config: RepoConfig, backDir: string, port: number, session: Session, token?: CancelToken): Promise<void> {
+  const cfg = config.backend!
+
+  updateServer(session, 'starting', '서버를 시작하고 있습니다...')
+  const be = await resolveStartCommand(backDir, cfg.startCommand)
+  session.log(`[start] backend via ${be.label} (port ${port})`)
+
+  const isWindows = process.platform === 'win32'
+  const needsShell = isWindows && be.cmd.endsWith('.cmd')
+  const healthUrl = `http://127.0.0.1:${port}${cfg.healthPath || '/'}`
+
+  // 비정상 종료 시 프론트엔드와 같은 정책으로 자동 재시작 (yarn 아래의 실제 서버까지 종료되도록 별도 프로세스 그룹)
+  let healthy = false
+  const supervisor = supervise({
+    start: () => spawn(be.cmd, be.args, {
+      cwd: backDir,
+      shell: needsShell,
+      env: envWithDefaultPath({ PORT: String(port), SERVER_PORT: String(port) }),
+      detached: !isWindows
+    }),
+    maxRestarts: FRONTEND_MAX_RESTARTS,
+    baseDelayMs: FRONTEND_RESTART_BASE_DELAY_MS,
+    maxDelayMs: FRONTEND_RESTART_MAX_DELAY_MS,
+    stableAfterMs: FRONTEND_STABLE_AFTER_MS,
+    onSpawn: (proc, restarts) => {
+      proc.stdout?.on('data', (d) => session.log(`[backend] ${d.toString().trim()}`))
+      proc.stderr?.on('data', (d) => session.log(`[backend:err] ${d.toString().trim()}`))
+      proc.on('exit', (code, signal) => {
+        session.log(`[backend] exited (code=${code}, signal=${signal})`)
+      })
+      if (restarts === 0) return
+
+      session.log(`[supervisor] Backend restarted (restart #${restarts}, pid=${proc.pid})`)
+      updateStatus(session, { serverPid: proc.pid ?? null })
+      if (!healthy) return
+      // 수업 중 재시작된 경우 헬스 체크가 다시 통과하면 running 복귀
+      waitForReady([healthUrl], { timeoutMs: BACKEND_HEALTH_TIMEOUT_MS, isAlive: () => session.backend === supervisor && supervisor.current() === proc })
+        .then(() => updateServer(session, 'running', `서버 실행 중 (자동 재시작 ${restarts}회)`))
+        .catch(() => {})
+    },
+    onRestartScheduled: (attempt, delayMs) => {
+      session.log(`[supervisor] Restarting backend in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${FRONTEND_MAX_RESTARTS})`)
+      updateServer(session, 'starting', `서버 재시작 중... (${attempt}/${FRONTEND_MAX_RESTARTS})`)
+    },
+    onGiveUp: () => {
+      session.log(`[supervisor] Backend crashed ${FRONTEND_MAX_RESTARTS} times in a row, giving up.`)
+      updateServer(session, 'error', '서버가 예상치 못하게 종료되었습니다')
+    },
+    onCleanExit: () => {
+      updateServer(session, 'idle', '서버 종료됨')
+    }
+  })
+  session.backend = supervisor
+
+  session.log(`[backend] Waiting for health check: ${healthUrl}`)
+  await waitForReady([healthUrl], { timeoutMs: BACKEND_HEALTH_TIMEOUT_MS, isAlive: () => supervisor.alive() && !token?.cancelled })
+  token?.throwIfCancelled()
+  healthy = true
+
+  session.log('[backend] Health check passed.')
+  updateServer(session, 'running', '서버 실행 중')
+}
+
+async function buildFrontend(config: RepoConfig, frontDir: string, session: Session, token?: CancelToken) {
+  updateStatus(session, { step: 'building', message: '사이트 빌드 중...' })
+  updateClient(session, 'building', '사이트를 빌드하고 있습니다...')
+
+  const build = await resolveStartCommand(frontDir, config.frontend.buildCommand || 'yarn build')
+  session.log(`[build] Building frontend via ${build.label}`)
+  await execStream(build.cmd, build.args, frontDir, 'build', { token, log: session.log })
+  session.log('[build] Frontend build completed.')
+}
+
+async function serveBuiltSites(config: RepoConfig, frontDir: string, ports: PortMap, session: Session) {
+  updateClient(session, 'starting', '사이트를 시작하고 있습니다...')
+
+  const outputs = {
+    student: path.join(frontDir, config.frontend.outputDirs?.student || 'packages/student/dist'),
+    admin: path.join(frontDir, config.frontend.outputDirs?.admin || 'packages/admin/dist')
+  }
+
+  // 학생용 사이트는 프록시 뒤에 두므로 내부 포트에서 이 PC만 접근 가능하게 제공
+  const targets = {
+    student: { port: ports.studentInternal!, host: '127.0.0.1' },
+    admin: ports.adminInternal ? { port: ports.adminInternal, host: '127.0.0.1' } : { port: ports.admin, host: '0.0.0.0' }
+  }
+
+  for (const site of ['student', 'admin'] as const) {
+    const server = await serveStatic(outputs[site], targets[site].port, targets[site].host)
+    session.staticServers.push(server)
+    session.log(`[serve] ${site} site: ${outputs[site]} on ${targets[site].host}:${targets[site].port}`)
+    server.on('error', (err) => session.log(`[serve:err] ${site}: ${err.message}`))
+  }
+}
+
+// .env 템플릿에서 쓸 수 있는 변수들
+// 로컬 백엔드가 없으면 선택된 서버 프로필의 주소와 쿠키 도메인을 사용
+function envVariables(config: RepoConfig, ports: PortMap, localIP: string, profile: ServerProfile, sessionId: string, log: (line: string) => void): Record<string, string> {
+  const { https } = loadSettings(log)
+  const lanHostname = lanHostnameFor(sessionId, log)
+  const scheme = https ? 'https' : 'http'
+  return {
+    scheme,
+    localIP,
+    studentPort: String(ports.student),
+    adminPort: String(ports.admin),
+    adminHost: 'admin.localhost',
+    serverPort: ports.server ? String(ports.server) : '',
+    serverUrl: ports.server ? `${scheme}://${localIP}:${ports.server}` : profile.serverUrl,
+    cookieDomain: profile.cookieDomain || 'localhost',
+    adminCookieDomain: profile.adminCookieDomain || 'admin.localhost',
+    studentCookieDomain: profile.studentCookieDomain || localIP,
+    lanHostname: lanHostname ? `${lanHostname}.local` : '',
+    branch: config.frontend.branch || 'main'
+  }
+}
+
+// 첫 번째 세션은 기존 작업 폴더를 그대로 쓰고, 나머지는 sessions/<ID> 하위 폴더에 따로 받음
+function workspaceDirOf(config: RepoConfig, sessionId = DEFAULT_SESSION_ID): string {
+  const base = config.workspaceDir || path.join(app.getPath('userData'), 'workspace')
+  return sessionId === DEFAULT_SESSION_ID ? base : path.join(base, 'sessions', sessionId)
+}
+
+// 세션마다 다른 .local 이름으로 광고 (같은 이름을 두 세션이 쓰면 학생 기기가 어느 쪽으로 갈지 알 수 없음)
+function lanHostnameFor(sessionId: string, log: (line: string) => void): string {
+  const { lanHostname } = loadSettings(log)
+  if (!lanHostname || sessionId === DEFAULT_SESSION_ID) return lanHostname
+  return `${lanHostname.slice(0, 62 - sessionId.length).replace(/-+$/, '')}-${sessionId}`
+}
+
+function preflightInput(config: RepoConfig, profile: ServerProfile, sessionId = DEFAULT_SESSION_ID): PreflightInput {
+  const workspaceDir = workspaceDirOf(config, sessionId)
+  return {
+    runTool: (cmd, args, cwd) => execCapture(cmd, args, cwd ?? os.homedir()),
+    workspaceDir,
+    frontendDir: path.join(workspaceDir, config.frontend.cwdName || 'frontend'),
+    profile,
+    localBackend: !!config.backend,
+    hostsStatus: hosts.status
+  }
+}
+
+function logPreflight(report: PreflightReport, session: Session) {
+  for (const check of report.checks) {
+    if (check.result === 'pass') session.log(`[preflight] ✓ ${check.label}: ${check.message}`)
+    else if (check.result === 'warn') session.log(`[preflight:err] ! ${check.label}: ${check.message}`)
+    else session.log(`[preflight] ✗ ${check.label}: ${check.message}`)
+  }
+}
+
+// 준비 완료 판단에 사용할 주소 목록 (devUrl의 포트는 실제 배정된 학생용 포트로 교체)
+function readinessUrls(config: RepoConfig, ports: PortMap, localIP: string, scheme: 'http' | 'https'): string[] {
+  const urls = [
+    `${scheme}://${localIP}:${ports.student}/`,
+    `${scheme}://admin.localhost:${ports.admin}/`
+  ]
+  if (config.frontend.devUrl) {
+    try {
+      const devUrl = new URL(config.frontend.devUrl)
+      devUrl.protocol = `${scheme}:`
+      devUrl.port = String(ports.student)
+      urls.unshift(devUrl.toString())
+    } catch {
+      // 잘못된 devUrl은 무시
+    }
+  }
+  return [...new Set(urls)]
+}
+
+function startMockEnvironment(config: RepoConfig, session: Session) {
+  const previous = session.launch
+  const { token, cancel } = createCancellation()
+  // 실패 후 다시 시작하는 경우 등 이전 실행이 남아 있으면 취소하고 프로세스와 포트를 정리한 뒤 시작
+  const done = (async () => {
+    if (previous) {
+      previous.cancel()
+      await previous.done.catch(() => {})
+    }
+    await releaseSession(session)
+    if (token.cancelled) return { ok: false, cancelled: true }
+    return launch(config, session, token)
+  })()
+  const entry = { cancel, done }
+  session.launch = entry
+  done.finally(() => {
+    if (session.launch === entry) session.launch = null
+  })
+  return done
+}
+
+async function launch(config: RepoConfig, session: Session, token: CancelToken) {
+  session.sessionLog?.end()
+  session.sessionLog = createSessionLog(session.id === DEFAULT_SESSION_ID ? undefined : session.id, session.log)
+  session.history?.finish()
+  session.history = startLessonRecord({
+    sessionId: session.id,
+    repoUrl: config.frontend.url,
+    version: config.frontend.ref || config.frontend.branch,
+    mode: config.frontend.mode || 'dev'
+  }, session.log)
+  session.log(`[launcher] Starting lesson ${session.id} (${config.frontend.url} ${config.frontend.ref || config.frontend.branch || ''}, mode=${config.frontend.mode || 'dev'})`)
   try {
-    updateStatus({ step: 'checking-tools', message: '환경 확인 중...' }, notify)
-    await ensureTools(notify)
+    updateStatus(session, { step: 'checking-tools', message: '실행 전 점검 중...', version: config.frontend.ref || config.frontend.branch })
+    const profile = getProfile(config.serverProfileId, session.log)
+    const report = await runPreflight(preflightInput(config, profile, session.id))
+    token.throwIfCancelled()
+    logPreflight(report, session)
+    updateStatus(session, { preflight: report })
+
+    // 실패 항목을 한 번에 알리고 첫 번째 실패의 코드로 안내
+    const failed = report.checks.filter((check) => check.result === 'fail')
+    if (failed.length > 0) {
+      throw new LaunchFailure(failed[0].code ?? 'UNKNOWN', failed.map((check) => `${check.label}: ${check.message}`).join('\n'))
+    }
 
-    updateStatus({ step: 'preparing', message: '준비 중...' }, notify)
+    updateStatus(session, { step: 'preparing', message: '준비 중...' })
 
     // 작업 디렉토리 설정
-    const { app } = await import('electron')
-    const workspaceDir = config.workspaceDir || path.join(app.getPath('userData'), 'workspace')
+    const workspaceDir = workspaceDirOf(config, session.id)
     const frontDir = path.join(workspaceDir, config.frontend.cwdName || 'frontend')
+    session.envFiles = { frontendDir: frontDir, targets: (config.envFiles ?? DEFAULT_ENV_FILES).map((f) => f.target) }
 
-    logMessage(`[workspace] Using workspace directory: ${workspaceDir}`, notify)
-    logMessage(`[frontend] Frontend directory: ${frontDir}`, notify)
+    session.log(`[workspace] Using workspace directory: ${workspaceDir}`)
+    session.log(`[frontend] Frontend directory: ${frontDir}`)
 
     // 작업 디렉토리 생성
     fs.mkdirSync(workspaceDir, { recursive: true })
 
+    // 포트 배정 - 이미 사용 중이면 다음 빈 포트로 대체
+    session.log('[ports] Checking port availability...')
+    const useHttps = loadSettings(session.log).https
+    const preferredPorts: PortMap = {
+      student: config.ports?.student ?? DEFAULT_STUDENT_PORT,
+      admin: config.ports?.admin ?? DEFAULT_ADMIN_PORT,
+      ...(config.backend ? { server: config.backend.port ?? DEFAULT_BACKEND_PORT } : {})
+    }
+    preferredPorts.studentInternal = preferredPorts.student + INTERNAL_PORT_OFFSET
+    // HTTPS 모드에서는 관리자 사이트와 백엔드도 TLS 프록시 뒤에서 실행
+    if (useHttps) {
+      preferredPorts.adminInternal = preferredPorts.admin + INTERNAL_PORT_OFFSET
+      if (preferredPorts.server) preferredPorts.serverInternal = preferredPorts.server + INTERNAL_PORT_OFFSET
+    }
+    token.throwIfCancelled()
+    const ports = await allocatePorts(preferredPorts, (name, from, to) => {
+      session.log(`[ports] Port ${from} (${name}) is in use, using ${to} instead.`)
+    }, portsInUse(session))
+    session.log(`[ports] student=${ports.student} (internal ${ports.studentInternal}), admin=${ports.admin}${ports.server ? `, server=${ports.server}` : ''}`)
+    updateStatus(session, { ports, https: useHttps })
+
+    // 백엔드는 프론트엔드 준비와 병렬로 클론/설치
+    const backendPrepared = config.backend
+      ? prepareBackend(config, workspaceDir, session, token)
+      : null
+    // 프론트엔드 준비가 먼저 실패해도 unhandled rejection이 나지 않도록
+    backendPrepared?.catch(() => {})
+
     // Git 클론 또는 업데이트
-    if (fs.existsSync(frontDir)) {
-      logMessage('[git] Frontend directory exists, pulling latest changes...', notify)
-      updateStatus({ step: 'cloning', message: 'Git 저장소 업데이트 중...' }, notify)
-      await execStream('git', ['pull'], frontDir, notify)
-    } else {
-      logMessage(`[git] Cloning frontend repository: ${config.frontend.url}`, notify)
-      updateStatus({ step: 'cloning', message: 'Git 저장소 클론 중...' }, notify)
-      await execStream('git', ['clone', config.frontend.url, frontDir], workspaceDir, notify)
-
-      // 브랜치 변경
-      if (config.frontend.branch && config.frontend.branch !== 'main' && config.frontend.branch !== 'master') {
-        logMessage(`[git] Switching to branch: ${config.frontend.branch}`, notify)
-        await execStream('git', ['checkout', config.frontend.branch], frontDir, notify)
+    updateStatus(session, { step: 'cloning', message: 'Git 저장소 받는 중...' })
+    await withCode('GIT_SYNC_FAILED', syncRepository(gitRunner(session, token), config.frontend.url, { branch: config.frontend.branch, ref: config.frontend.ref }, frontDir, workspaceDir))
+
+    // 새 버전이 문제를 일으키면 되돌릴 수 있도록 현재/마지막 정상 리비전을 함께 알림
+    const revision = await currentRevision(gitRunner(session, token), frontDir)
+    updateStatus(session, {
+      revision: {
+        current: revision,
+        lastGood: getLastGoodRevision(config.frontend.url)?.sha
       }
+    })
+    session.log(`[git] Frontend revision: ${revision ?? 'unknown'}`)
+    if (revision) session.history?.revision(revision)
+
+    await withCode('INSTALL_FAILED', installNodeDeps(frontDir, config.frontend.installCommand || 'yarn install', !!config.cleanInstall, session, token, () => {
+      updateStatus(session, { step: 'installing', message: '의존성 설치 중...' })
+    }))
+
+    let backendReady: Promise<void> | null = null
+    if (backendPrepared) {
+      const backDir = await backendPrepared
+      backendReady = withCode('BACKEND_FAILED', startBackend(config, backDir, ports.serverInternal ?? ports.server!, session, token))
+      backendReady.catch(() => {})
     }
 
-    updateStatus({ step: 'installing', message: '의존성 설치 중...' }, notify)
-    logMessage('[deps] Cleaning up frontend node_modules...', notify)
-    fs.rmSync(path.join(frontDir, 'node_modules'), { recursive: true, force: true })
-    await installDeps(frontDir, config.frontend.installCommand || 'yarn install', notify)
-
-    // 환경변수 설정 - packages 구조에 맞게 각각 생성
-    logMessage('[config] Creating .env.local files for packages structure...', notify)
-    const localIP = await getLocalIP()
-
-    // packages 디렉토리들 확인 및 생성
-    const packagesDir = path.join(frontDir, 'packages')
-    const adminDir = path.join(packagesDir, 'admin')
-    const studentDir = path.join(packagesDir, 'student')
-    const utilConfigDir = path.join(packagesDir, 'util-config')
-
-    // Admin package .env.local
-    if (fs.existsSync(adminDir)) {
-      const adminEnvPath = path.join(adminDir, '.env.local')
-      const adminEnvContent = `# Admin package configuration
-VITE_SERVER_URL=https://mozu-v2-stag.dsmhs.kr
-VITE_ADMIN_URL=http://admin.localhost:3002
-VITE_ADMIN_AUTH_URL=http://admin.localhost:3002/signin
-VITE_ADMIN_COOKIE_DOMAIN=admin.localhost
-BRANCH=main
-`
-      fs.writeFileSync(adminEnvPath, adminEnvContent, 'utf-8')
-      logMessage('[config] Admin .env.local created', notify)
+    token.throwIfCancelled()
+
+    // 환경변수 설정 - 템플릿을 렌더링해 packages 구조에 맞게 각각 생성
+    session.log('[config] Creating .env.local files from templates...')
+    const localIP = getLocalIP(session.log)
+    updateStatus(session, { localIP })
+    const tls = useHttps ? certificatesFor([localIP], session) : undefined
+    const variables = envVariables(config, ports, localIP, profile, session.id, session.log)
+    session.log(`[config] Server URL: ${variables.serverUrl}`)
+
+    const templates = config.envFiles ?? DEFAULT_ENV_FILES
+    const rendered = renderEnvFiles(templates, variables, loadEnvOverrides())
+    for (const target of writeEnvFiles(frontDir, templates, rendered)) {
+      const file = rendered.find((f) => f.target === target)
+      const note = file && file.overridden.length > 0 ? ` (overrides: ${file.overridden.join(', ')})` : ''
+      session.log(`[config] ${target} created${note}`)
     }
 
-    // Student package .env.local
-    if (fs.existsSync(studentDir)) {
-      const studentEnvPath = path.join(studentDir, '.env.local')
-      const studentEnvContent = `# Student package configuration
-VITE_SERVER_URL=https://mozu-v2-stag.dsmhs.kr
-VITE_STUDENT_URL=http://${localIP}:3001
-VITE_STUDENT_AUTH_URL=http://${localIP}:3001/signin
-VITE_STUDENT_COOKIE_DOMAIN=${localIP}
-BRANCH=main
-`
-      fs.writeFileSync(studentEnvPath, studentEnvContent, 'utf-8')
-      logMessage('[config] Student .env.local created', notify)
+    session.log('[config] Environment variables configured for packages structure')
+
+    const readyUrls = readinessUrls(config, ports, localIP, tls ? 'https' : 'http')
+    const readyTimeoutMs = config.frontend.readyTimeoutMs ?? FRONTEND_READY_TIMEOUT_MS
+    let initialReady = false
+    let sitesAlive: () => boolean
+
+    if (config.frontend.mode === 'production') {
+      // 빌드 후 메인 프로세스의 정적 서버로 제공 (dev 서버보다 가볍고 빠름)
+      await withCode('BUILD_FAILED', buildFrontend(config, frontDir, session, token))
+      updateStatus(session, { step: 'starting', message: '사이트 시작 중...' })
+      token.throwIfCancelled()
+      await serveBuiltSites(config, frontDir, ports, session)
+      sitesAlive = () => session.staticServers.length > 0
+    } else {
+      updateStatus(session, { step: 'starting', message: '프론트엔드 시작 중...' })
+
+      updateClient(session, 'starting', '개발 서버를 시작하고 있습니다...')
+      const fe = await resolveStartCommand(frontDir, config.frontend.startCommand)
+      token.throwIfCancelled()
+      session.log(`[start] frontend via ${fe.label}`)
+
+      // 프론트엔드 dev 서버가 배정된 포트를 쓸 수 있도록 환경변수로 전달
+      // 학생용 dev 서버는 프록시 뒤 내부 포트에서 실행 (HMR 웹소켓도 프록시를 거침)
+      const frontendEnv = envWithDefaultPath({
+        HOST: '127.0.0.1',
+        PORT: String(ports.studentInternal),
+        STUDENT_PORT: String(ports.studentInternal),
+        ADMIN_PORT: String(ports.adminInternal ?? ports.admin)
+      })
+
+      // Windows에서 .cmd 파일 실행 시 shell 옵션 설정
+      const isWindows = process.platform === 'win32'
+      const needsShell = isWindows && fe.cmd.endsWith('.cmd')
+
+      // 비정상 종료 시 백오프 후 자동 재시작 (vite 등 하위 프로세스까지 종료되도록 별도 프로세스 그룹)
+      const supervisor = supervise({
+        start: () => spawn(fe.cmd, fe.args, { cwd: frontDir, shell: needsShell, env: frontendEnv, detached: !isWindows }),
+        maxRestarts: FRONTEND_MAX_RESTARTS,
+        baseDelayMs: FRONTEND_RESTART_BASE_DELAY_MS,
+        maxDelayMs: FRONTEND_RESTART_MAX_DELAY_MS,
+        stableAfterMs: FRONTEND_STABLE_AFTER_MS,
+        onSpawn: (proc, restarts) => {
+          proc.stdout?.on('data', (d) => session.log(`[frontend] ${d.toString().trim()}`))
+          proc.stderr?.on('data', (d) => session.log(`[frontend:err] ${d.toString().trim()}`))
+          proc.on('exit', (code, signal) => {
+            session.log(`[frontend] exited (code=${code}, signal=${signal})`)
+          })
+          if (restarts === 0) return
+
+          session.log(`[supervisor] Frontend restarted (restart #${restarts}, pid=${proc.pid})`)
+          updateStatus(session, { frontendPid: proc.pid ?? null })
+          if (!initialReady) return
+          // 수업 중 재시작된 경우 다시 응답할 때까지 확인 후 running 복귀
+          waitForReady(readyUrls, { timeoutMs: readyTimeoutMs, ca: tls?.ca, isAlive: () => session.frontend === supervisor && supervisor.current() === proc })
+            .then(() => updateClient(session, 'running', `클라이언트 실행 중 (자동 재시작 ${restarts}회)`, restarts))
+            .catch(() => {})
+        },
+        onRestartScheduled: (attempt, delayMs) => {
+          session.log(`[supervisor] Restarting frontend in ${Math.round(delayMs / 1000)}s (attempt ${attempt}/${FRONTEND_MAX_RESTARTS})`)
+          updateClient(session, 'starting', `클라이언트 재시작 중... (${attempt}/${FRONTEND_MAX_RESTARTS})`, supervisor.restarts() + 1)
+        },
+        onGiveUp: () => {
+          session.log(`[supervisor] Frontend crashed ${FRONTEND_MAX_RESTARTS} times in a row, giving up.`)
+          updateClient(session, 'error', '클라이언트가 예상치 못하게 종료되었습니다')
+        },
+        onCleanExit: () => {
+          updateClient(session, 'idle', '클라이언트 종료됨')
+        }
+      })
+      session.frontend = supervisor
+      sitesAlive = () => supervisor.alive()
     }
 
-    // Util-config package .env.local
-    if (fs.existsSync(utilConfigDir)) {
-      const utilEnvPath = path.join(utilConfigDir, '.env.local')
-      const utilEnvContent = `# Util-config package configuration
-VITE_SERVER_URL=https://mozu-v2-stag.dsmhs.kr
-VITE_COOKIE_DOMAIN=localhost
-VITE_ADMIN_COOKIE_DOMAIN=admin.localhost
-VITE_STUDENT_COOKIE_DOMAIN=${localIP}
-BRANCH=main
-`
-      fs.writeFileSync(utilEnvPath, utilEnvContent, 'utf-8')
-      logMessage('[config] Util-config .env.local created', notify)
+    // 학생 기기는 프록시를 통해 접속 (준비 확인도 프록시를 거쳐 학생과 같은 경로를 확인)
+    await startStudentProxy(ports, session, tls)
+    if (tls) await startTlsFronts(ports, session, tls)
+    await advertiseStudentSite(localIP, ports, session)
+    token.throwIfCancelled()
+
+    // 실제로 학생/관리자 사이트가 응답할 때까지 대기
+    session.log(`[ready] Waiting for ${readyUrls.join(', ')}`)
+    updateClient(session, 'starting', '사이트 응답을 기다리고 있습니다...')
+    try {
+      await waitForReady(readyUrls, {
+        timeoutMs: readyTimeoutMs,
+        ca: tls?.ca,
+        isAlive: () => sitesAlive() && !token.cancelled,
+        onProgress: (ready, pending) => {
+          if (pending.length > 0 && (!session.frontend || session.frontend.current())) {
+            updateClient(session, 'starting', `사이트 응답 대기 중 (${ready.length}/${readyUrls.length})`)
+          }
+        }
+      })
+    } catch (err: any) {
+      token.throwIfCancelled()
+      if (err?.code === 'READINESS_TIMEOUT') {
+        updateClient(session, 'error', '사이트가 제한 시간 안에 응답하지 않았습니다')
+        throw err
+      }
+      updateClient(session, 'error', '사이트가 준비되기 전에 클라이언트가 종료되었습니다')
+      throw new LaunchFailure('FRONTEND_EXITED', err?.message || String(err), err)
     }
+    if (config.frontend.mode !== 'production') await verifyDevServerBinding(ports, localIP, session)
+    initialReady = true
+    session.log('[ready] All sites are responding.')
 
-    // 루트 .env.local도 생성 (fallback)
-    const rootEnvPath = path.join(frontDir, '.env.local')
-    const rootEnvContent = `# Root fallback configuration
-VITE_SERVER_URL=https://mozu-v2-stag.dsmhs.kr
-VITE_STUDENT_URL=http://${localIP}:3001
-VITE_STUDENT_AUTH_URL=http://${localIP}:3001/signin
-VITE_STUDENT_COOKIE_DOMAIN=${localIP}
-VITE_ADMIN_URL=http://admin.localhost:3002
-VITE_ADMIN_AUTH_URL=http://admin.localhost:3002/signin
-VITE_ADMIN_COOKIE_DOMAIN=admin.localhost
-VITE_COOKIE_DOMAIN=localhost
-BRANCH=main
-`
-    fs.writeFileSync(rootEnvPath, rootEnvContent, 'utf-8')
-
-    logMessage('[config] Environment variables configured for packages structure', notify)
-
-    updateStatus({ step: 'starting', message: '프론트엔드 시작 중...' }, notify)
-
-    updateClient('starting', '개발 서버를 시작하고 있습니다...', notify)
-    const fe = await resolveStartCommand(frontDir, config.frontend.startCommand)
-    logMessage(`[start] frontend via ${fe.label}`, notify)
-
-    const frontendEnv = envWithDefaultPath({
-      HOST: '0.0.0.0',
-      PORT: '3001'
-    })
+    updateClient(session, 'running', '클라이언트 실행 중')
 
-    // Windows에서 .cmd 파일 실행 시 shell 옵션 설정
-    const isWindows = process.platform === 'win32'
-    const needsShell = isWindows && fe.cmd.endsWith('.cmd')
+    if (backendReady) {
+      await backendReady
+    }
+    token.throwIfCancelled()
 
-    frontend = {
-      proc: spawn(fe.cmd, fe.args, { cwd: frontDir, shell: needsShell, env: frontendEnv }),
-      cwd: frontDir
+    if (revision) {
+      recordGoodRevision(config.frontend.url, revision, config.frontend.ref || config.frontend.branch)
+      updateStatus(session, { revision: { current: revision, lastGood: revision } })
     }
 
-    frontend.proc?.stdout?.on('data', (d) => logMessage(`[frontend] ${d.toString().trim()}`, notify))
-    frontend.proc?.stderr?.on('data', (d) => logMessage(`[frontend:err] ${d.toString().trim()}`, notify))
-    frontend.proc?.on('exit', (code, signal) => {
-      logMessage(`[frontend] exited (code=${code}, signal=${signal})`, notify)
-      if (code !== 0) {
-        updateClient('error', '클라이언트가 예상치 못하게 종료되었습니다', notify)
-      } else {
-        updateClient('idle', '클라이언트 종료됨', notify)
-      }
+    updateStatus(session, {
+      step: 'running',
+      runningSince: Date.now(),
+      message: session.backend ? 'Frontend & Backend Running' : 'Frontend Running',
+      serverPid: session.backend?.current()?.pid ?? null,
+      frontendPid: session.frontend?.current()?.pid ?? null
     })
 
-    updateClient('running', '클라이언트 실행 중', notify)
-
-    updateStatus({
-      step: 'running',
-      message: 'Frontend Running',
-      serverPid: null,
-      frontendPid: frontend?.proc?.pid ?? null
-    }, notify)
+    session.ipWatcher?.stop()
+    session.ipWatcher = watchAddress({
+      resolve: () => getLocalIP(session.log),
+      onChange: (previous, current) => {
+        session.log(`[network:err] Local IP changed from ${previous} to ${current}; students may not reach ${localIP}`)
+        // .local 이름은 새 주소로 다시 광고해 이름으로 접속하는 학생은 계속 접속할 수 있게 함
+        if (session.mdns) advertiseStudentSite(current, ports, session).catch(() => {})
+        // HTTPS면 새 주소도 포함한 인증서로 바꿔 새 주소로 접속하는 학생도 경고 없이 접속하게 함
+        if (tls) renewCertificates([localIP, current], session)
+        // 처음 주소로 되돌아오면 안내를 지움
+        updateStatus(session, { ipChange: current === localIP ? undefined : { previous: localIP, current } })
+      }
+    })
 
     return { ok: true }
   } catch (err: any) {
-    updateStatus({ step: 'error', message: err?.message || String(err) }, notify)
-    return { ok: false, error: err?.message || String(err) }
+    // 수업 종료로 취소된 경우는 오류가 아님 (정리는 stopMockEnvironment에서 처리)
+    if (token.cancelled || err instanceof LaunchCancelledError) {
+      session.log(`[launcher] Launch cancelled during ${session.status.step}`)
+      return { ok: false, cancelled: true }
+    }
+    const failure = toLaunchError(err, session.status.step, session.logs.history().slice(-LOG_EXCERPT_LINES).map((e) => `[${e.source}] ${e.text}`))
+    session.log(`[launcher:error] Launch failed during ${failure.step} (${failure.code}): ${failure.message}`)
+    session.history?.finish({ code: failure.code, step: failure.step })
+    // 실패한 실행이 띄운 프로세스와 포트는 바로 정리 (오류 안내와 로그는 수업 종료 전까지 남김)
+    await releaseSession(session)
+    updateStatus(session, { step: 'error', message: failure.message, error: failure })
+    return { ok: false, error: failure.message, failure }
   }
 }
 
-async function stopMockEnvironment() {
-  if (frontend?.proc) {
-    return new Promise<void>((resolve) => {
-      if (!frontend?.proc) {
-        resolve()
-        return
-      }
+// dev 서버가 HOST/PORT 환경변수를 따랐는지 확인 (무시하면 학생 기기가 프록시와 접속 허용 확인을 건너뛰고 바로 접속할 수 있음)
+// 원래 학생 포트는 프록시가 이미 열었으므로 내부 포트가 127.0.0.1에서만 응답하는지만 보면 됨
+async function verifyDevServerBinding(ports: PortMap, localIP: string, session: Session) {
+  const internal = ports.studentInternal!
+  if (!(await probeUrl(`http://127.0.0.1:${internal}/`))) {
+    throw new LaunchFailure('FRONTEND_PORT_IGNORED', `개발 서버가 배정된 내부 포트 ${internal}에서 응답하지 않습니다 (PORT 환경변수를 따르지 않는 시작 명령일 수 있음)`)
+  }
+  if (localIP !== '127.0.0.1' && await probeUrl(`http://${localIP}:${internal}/`)) {
+    throw new LaunchFailure('FRONTEND_PORT_IGNORED', `개발 서버가 ${localIP}:${internal}에서도 응답합니다 (HOST 환경변수를 따르지 않는 시작 명령일 수 있음)`)
+  }
+  session.log(`[ready] Dev server is bound to 127.0.0.1:${internal} only.`)
+}
 
-      const cleanup = () => {
-        resolve()
-      }
+async function startStudentProxy(ports: PortMap, session: Session, tls?: TlsMaterial) {
+  await session.studentProxy?.close()
+  const { accessControl } = loadSettings(session.log)
+  const lessonPin = accessControl.requirePin ? randomLessonPin() : ''
+  session.accessGate = createAccessGate({
+    allowedNetworks: accessControl.allowedNetworks,
+    pin: lessonPin,
+    isTrusted: isOwnAddress,
+    log: session.log
+  })
+  updateStatus(session, { lessonPin })
+  session.studentProxy = await createStudentProxy({
+    listenPort: ports.student,
+    targetPort: ports.studentInternal!,
+    ignore: isOwnAddress,
+    gate: session.accessGate,
+    tls,
+    onUpdate: (clients) => {
+      session.history?.clients(activeClientCount(clients))
+      sendClients(session.id, clients)
+    },
+    log: session.log
+  })
+  session.log(`[proxy] Student proxy on ${tls ? 'https' : 'http'}://0.0.0.0:${ports.student} -> 127.0.0.1:${ports.studentInternal}`)
+}
+
+// 관리자 사이트와 로컬 백엔드는 접속 기기로 집계하지 않고 TLS만 씌움
+async function startTlsFronts(ports: PortMap, session: Session, tls: TlsMaterial) {
+  const targets = [
+    { name: 'admin', listenPort: ports.admin, targetPort: ports.adminInternal },
+    { name: 'server', listenPort: ports.server, targetPort: ports.serverInternal }
+  ]
+  for (const target of targets) {
+    if (!target.listenPort || !target.targetPort) continue
+    session.tlsFronts.push(await createStudentProxy({
+      listenPort: target.listenPort,
+      targetPort: target.targetPort,
+      ignore: () => true,
+      tls,
+      log: session.log
+    }))
+    session.log(`[proxy] ${target.name} TLS front on https://0.0.0.0:${target.listenPort} -> 127.0.0.1:${target.targetPort}`)
+  }
+}
 
-      frontend.proc.once('exit', cleanup)
-      frontend.proc.once('close', cleanup)
+function tlsDir(): string {
+  return path.join(app.getPath('userData'), 'tls')
+}
 
-      const timeout = setTimeout(cleanup, 5000)
+// 이 PC의 주소, admin.localhost, 세션의 mDNS 이름을 모두 포함한 인증서
+function certificatesFor(addresses: string[], session: Session): TlsMaterial {
+  const lanHostname = lanHostnameFor(session.id, session.log)
+  return ensureCertificates(tlsDir(), {
+    ipAddresses: [...new Set([...addresses, '127.0.0.1'].filter((ip) => net.isIP(ip)))],
+    dnsNames: ['admin.localhost', 'localhost', ...(lanHostname ? [`${lanHostname}.local`] : [])]
+  }, session.log)
+}
 
-      try {
-        if (process.platform === 'win32') {
-          const killProc = spawn('taskkill.exe', ['/PID', String(frontend.proc.pid), '/T', '/F'], { stdio: 'ignore', shell: false })
-          killProc.on('exit', () => {
-            clearTimeout(timeout)
-            cleanup()
-          })
-        } else {
-          frontend.proc.kill('SIGTERM')
-          setTimeout(() => {
-            if (frontend?.proc && !frontend.proc.killed) {
-              frontend.proc.kill('SIGKILL')
-            }
-          }, 3000)
-        }
-      } catch (err) {
-        clearTimeout(timeout)
-        cleanup()
-      }
+// 실행 중인 학생용 프록시와 TLS 프록시의 인증서를 바꿈 (열려 있는 연결은 끊지 않음)
+function renewCertificates(addresses: string[], session: Session) {
+  try {
+    const renewed = certificatesFor(addresses, session)
+    for (const proxy of [session.studentProxy, ...session.tlsFronts]) proxy?.setCertificate(renewed)
+    session.log(`[tls] Certificate now covers ${addresses.join(', ')}`)
+  } catch (err: any) {
+    session.log(`[tls:error] Could not renew the certificate for ${addresses.join(', ')}: ${err?.message || err}`)
+  }
+}
+
+// 광고에 실패해도 IP 주소로는 접속할 수 있으므로 실행을 멈추지 않음
+async function advertiseStudentSite(address: string, ports: PortMap, session: Session) {
+  await session.mdns?.stop()
+  session.mdns = null
+  const hostname = lanHostnameFor(session.id, session.log)
+  if (!hostname || address === 'localhost') return
+  try {
+    session.mdns = await startMdnsAdvertiser({
+      hostname,
+      address,
+      port: ports.student,
+      path: '/signin',
+      instanceName: `Mozu ${hostname}`,
+      log: session.log
     })
+    updateStatus(session, { lanHostname: session.mdns.hostname })
+  } catch (err: any) {
+    session.log(`[mdns:err] Could not advertise ${hostname}.local: ${err?.message || err}`)
+    updateStatus(session, { lanHostname: undefined })
+  }
+}
+
+// 세션이 띄운 프로세스, 서버, 프록시, mDNS 광고를 정리 (상태와 로그는 그대로 둠)
+async function releaseSession(session: Session) {
+  session.ipWatcher?.stop()
+  session.ipWatcher = null
+
+  const supervisor = session.frontend
+  const server = session.backend
+  const servers = session.staticServers
+  const proxy = session.studentProxy
+  const fronts = session.tlsFronts
+  const advertiser = session.mdns
+  session.frontend = null
+  session.backend = null
+  session.staticServers = []
+  session.studentProxy = null
+  session.tlsFronts = []
+  session.accessGate = null
+  session.mdns = null
+  await Promise.all([supervisor?.stop(), server?.stop(), ...servers.map(closeServer), proxy?.close(), ...fronts.map((front) => front.close()), advertiser?.stop()])
+  sendClients(session.id, [])
+}
+
+async function stopMockEnvironment(session: Session) {
+  // 실행 중이면 먼저 취소하고 진행 중인 git/yarn 등이 종료될 때까지 대기
+  const launching = session.launch
+  if (launching) {
+    launching.cancel()
+    await launching.done.catch(() => {})
   }
 
-  frontend = null
-  status = { step: 'idle', logs: [] }
+  await releaseSession(session)
+
+  // 화면의 로그는 비우지만 세션 로그 파일에는 남아 있음
+  if (session.status.step !== 'idle') session.log('[launcher] Lesson stopped')
+  session.history?.finish()
+  session.history = null
+  session.sessionLog?.end()
+  session.sessionLog = null
+  session.status = { step: 'idle' }
+  // 프로젝터 창처럼 수업 종료를 직접 누르지 않은 창도 상태를 맞춤
+  sendStatus(session)
+  session.logs.clear()
+  sendLogs({ sessionId: session.id, entries: [], reset: true })
+  // 종료하는 동안 같은 세션이 다시 시작됐으면 목록에 남겨 둠
+  if (sessions.get(session.id) === session && !session.launch) sessions.delete(session.id)
+}
+
+function stopAllSessions() {
+  return Promise.all([...sessions.values()].map(stopMockEnvironment))
 }
 
 // Clean up on app close
 app.on('before-quit', async () => {
-  await stopMockEnvironment()
+  await stopAllSessions()
 })
@@ -0,0 +1,219 @@
+import * as dgram from 'dgram'
+
+const MDNS_ADDRESS = '224.0.0.251'
+const MDNS_PORT = 5353
+const RECORD_TTL = 120
+// 다른 기기의 캐시가 바로 갱신되도록 최초 응답을 1초 간격으로 두 번 보냄
+const ANNOUNCE_INTERVAL_MS = 1000
+
+const TYPE_A = 1
+const TYPE_PTR = 12
+const TYPE_TXT = 16
+const TYPE_SRV = 33
+const TYPE_ANY = 255
+const CLASS_IN = 1
+const CACHE_FLUSH = 0x8000
+
+// .local 이름으로 쓸 수 있는 한 개의 레이블 (영문 소문자, 숫자, 하이픈)
+const HOSTNAME_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/
+
+export type MdnsAdvertiserOptions = {
+  hostname: string;        // 'mozu-room3' 또는 'mozu-room3.local'
+  address: string;         // 광고할 IPv4 주소 (이 주소의 인터페이스에서만 응답)
+  port: number;            // 학생용 사이트 포트
+  path?: string;           // DNS-SD TXT 레코드의 path
+  instanceName?: string;   // 서비스 브라우저에 보이는 이름
+  log?: (line: string) => void;
+}
+
+export type MdnsAdvertiser = {
+  hostname: string;        // 실제로 광고 중인 전체 이름 (예: mozu-room3.local)
+  stop: () => Promise<void>;
+}
+
+type ResourceRecord = {
+  name: string;
+  type: number;
+  flush: boolean;          // 이 이름의 유일한 소유자일 때 설정 (공유 레코드인 PTR은 제외)
+  data: Buffer;
+}
+
+// 'mozu-room3.local', 'Mozu-Room3' 등을 'mozu-room3'로 정규화 (형식이 맞지 않으면 null)
+export function normalizeHostname(input: string): string | null {
+  const label = input.trim().toLowerCase().replace(/\.local\.?$/, '')
+  return HOSTNAME_LABEL.test(label) ? label : null
+}
+
+function encodeName(name: string): Buffer {
+  const parts: Buffer[] = []
+  for (const label of name.split('.').filter(Boolean)) {
+    const bytes = Buffer.from(label, 'utf-8')
+    parts.push(Buffer.from([Math.min(bytes.length, 63)]), bytes.subarray(0, 63))
+  }
+  parts.push(Buffer.from([0]))
+  return Buffer.concat(parts)
+}
+
+function encodeRecord(record: ResourceRecord, ttl: number): Buffer {
+  const header = Buffer.alloc(10)
+  header.writeUInt16BE(record.type, 0)
+  header.writeUInt16BE(CLASS_IN | (record.flush ? CACHE_FLUSH : 0), 2)
+  header.writeUInt32BE(ttl, 4)
+  header.writeUInt16BE(record.data.length, 8)
+  return Buffer.concat([encodeName(record.name), header, record.data])
+}
+
+function encodeResponse(records: ResourceRecord[], ttl: number, id = 0, questions: Buffer[] = []): Buffer {
+  const header = Buffer.alloc(12)
+  header.writeUInt16BE(id, 0)
+  header.writeUInt16BE(0x8400, 2)   // 응답 + 권한 있음
+  header.writeUInt16BE(questions.length, 4)
+  header.writeUInt16BE(records.length, 6)
+  return Buffer.concat([header, ...questions, ...records.map((record) => encodeRecord(record, ttl))])
+}
+
+// 압축 포인터를 따라가며 이름을 읽음 (잘못된 패킷이면 예외)
+function readName(packet: Buffer, offset: number): { name: string; next: number } {
+  const labels: string[] = []
+  let next = -1
+  for (let jumps = 0; jumps < 32; jumps++) {
+    const length = packet.readUInt8(offset)
+    if (length === 0) {
+      return { name: labels.join('.'), next: next === -1 ? offset + 1 : next }
+    }
+    if ((length & 0xc0) === 0xc0) {
+      if (next === -1) next = offset + 2
+      offset = packet.readUInt16BE(offset) & 0x3fff
+      continue
+    }
+    if (offset + 1 + length > packet.length) throw new Error('truncated name')
+    labels.push(packet.toString('utf-8', offset + 1, offset + 1 + length))
+    offset += 1 + length
+  }
+  throw new Error('too many compression pointers')
+}
+
+type Question = { name: string; type: number; raw: Buffer }
+
+function parseQuery(packet: Buffer): { id: number; questions: Question[] } | null {
+  try {
+    if (packet.length < 12) return null
+    const flags = packet.readUInt16BE(2)
+    if (flags & 0x8000) return null   // 다른 기기의 응답은 무시
+    const count = packet.readUInt16BE(4)
+    const questions: Question[] = []
+    let offset = 12
+    for (let i = 0; i < count; i++) {
+      const { name, next } = readName(packet, offset)
+      const type = packet.readUInt16BE(next)
+      questions.push({ name: name.toLowerCase(), type, raw: Buffer.concat([encodeName(name), packet.subarray(next, next + 4)]) })
+      offset = next + 4
+    }
+    return { id: packet.readUInt16BE(0), questions }
+  } catch {
+    return null
+  }
+}
+
+function buildRecords(options: MdnsAdvertiserOptions, host: string): ResourceRecord[] {
+  const serviceType = '_http._tcp.local'
+  const instance = `${options.instanceName || host.replace(/\.local$/, '')}.${serviceType}`
+
+  const srv = Buffer.alloc(6)
+  srv.writeUInt16BE(0, 0)           // priority
+  srv.writeUInt16BE(0, 2)           // weight
+  srv.writeUInt16BE(options.port, 4)
+
+  const txtEntry = Buffer.from(`path=${options.path || '/'}`, 'utf-8')
+
+  return [
+    { name: host, type: TYPE_A, flush: true, data: Buffer.from(options.address.split('.').map(Number)) },
+    { name: '_services._dns-sd._udp.local', type: TYPE_PTR, flush: false, data: encodeName(serviceType) },
+    { name: serviceType, type: TYPE_PTR, flush: false, data: encodeName(instance) },
+    { name: instance, type: TYPE_SRV, flush: true, data: Buffer.concat([srv, encodeName(host)]) },
+    { name: instance, type: TYPE_TXT, flush: true, data: Buffer.concat([Buffer.from([txtEntry.length]), txtEntry]) }
+  ]
+}
+
+// 외부 프로그램 없이 학생용 사이트를 <hostname>.local 이름과 DNS-SD(_http._tcp)로 광고
+export function startMdnsAdvertiser(options: MdnsAdvertiserOptions): Promise<MdnsAdvertiser> {
+  const label = normalizeHostname(options.hostname)
+  if (!label) {
+    return Promise.reject(new Error(`Invalid mDNS hostname: ${options.hostname}`))
+  }
+  const host = `${label}.local`
+  const log = options.log ?? (() => {})
+  const records = buildRecords(options, host)
+  const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+  const timers: NodeJS.Timeout[] = []
+
+  const matching = (question: Question) => records.filter((record) =>
+    record.name.toLowerCase() === question.name && (question.type === TYPE_ANY || question.type === record.type)
+  )
+
+  const send = (packet: Buffer, address = MDNS_ADDRESS, port = MDNS_PORT) => {
+    socket.send(packet, port, address, (err) => {
+      if (err) log(`[mdns:err] Failed to send: ${err.message}`)
+    })
+  }
+
+  socket.on('message', (packet, remote) => {
+    const query = parseQuery(packet)
+    if (!query) return
+    const answers = [...new Set(query.questions.flatMap(matching))]
+    if (answers.length === 0) return
+
+    if (remote.port !== MDNS_PORT) {
+      // 일반 DNS 클라이언트의 단발성 질의는 ID와 질문을 그대로 담아 보낸 곳으로 응답
+      send(encodeResponse(answers, RECORD_TTL, query.id, query.questions.map((q) => q.raw)), remote.address, remote.port)
+    } else {
+      send(encodeResponse(answers, RECORD_TTL))
+    }
+  })
+
+  let stopped: Promise<void> | null = null
+  const stop = (): Promise<void> => {
+    if (stopped) return stopped
+    for (const timer of timers) clearTimeout(timer)
+    // TTL 0 응답으로 다른 기기의 캐시에서 바로 지워지게 함
+    stopped = new Promise((resolve) => {
+      const close = () => {
+        try {
+          socket.close(() => resolve())
+        } catch {
+          resolve()
+        }
+      }
+      try {
+        socket.send(encodeResponse(records, 0), MDNS_PORT, MDNS_ADDRESS, close)
+      } catch {
+        close()
+      }
+    })
+    return stopped
+  }
+
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject)
+    socket.bind(MDNS_PORT, () => {
+      socket.off('error', reject)
+      socket.on('error', (err) => log(`[mdns:err] ${err.message}`))
+      try {
+        socket.addMembership(MDNS_ADDRESS, options.address)
+        socket.setMulticastInterface(options.address)
+        socket.setMulticastTTL(255)
+        socket.setMulticastLoopback(true)
+      } catch (err: any) {
+        socket.close()
+        reject(err)
+        return
+      }
+
+      const announcement = encodeResponse(records, RECORD_TTL)
+      send(announcement)
+      timers.push(setTimeout(() => send(announcement), ANNOUNCE_INTERVAL_MS))
+      log(`[mdns] Advertising ${host} -> ${options.address}:${options.port}`)
+      resolve({ hostname: host, stop })
+    })
+  })
+}
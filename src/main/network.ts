@@ -0,0 +1,56 @@
+import * as os from 'os'
+import type { NetworkInterfaceInfo } from '../shared/types'
+
+// VPN, Hyper-V, Docker, 가상머신 어댑터 이름 (학생 기기에서 접속할 수 없는 경우가 많음)
+const VIRTUAL_ADAPTER = /vethernet|hyper-v|virtualbox|vboxnet|vmware|vmnet|docker|^br-|^veth|wsl|utun|^tun|^tap|wireguard|^wg|tailscale|zerotier|vpn/i
+const DEFAULT_WATCH_INTERVAL_MS = 5000
+
+// 외부 IPv4 주소가 있는 인터페이스 목록 (실제 어댑터가 앞에 옴)
+export function listInterfaces(): NetworkInterfaceInfo[] {
+  const result: NetworkInterfaceInfo[] = []
+  for (const [name, aliases] of Object.entries(os.networkInterfaces())) {
+    for (const alias of aliases ?? []) {
+      if (alias.family === 'IPv4' && !alias.internal) {
+        result.push({ name, address: alias.address, virtual: VIRTUAL_ADAPTER.test(name) })
+      }
+    }
+  }
+  return result.sort((a, b) => Number(a.virtual) - Number(b.virtual))
+}
+
+// 선택한 인터페이스가 있으면 그 주소, 없으면 가상 어댑터가 아닌 첫 주소
+export function pickAddress(preferredName: string): string {
+  const interfaces = listInterfaces()
+  const preferred = interfaces.find((iface) => iface.name === preferredName)
+  return (preferred ?? interfaces[0])?.address ?? 'localhost'
+}
+
+// 이 PC 자신의 주소인지 (준비 확인 요청 등을 접속 기기에서 제외할 때 사용)
+export function isOwnAddress(ip: string): boolean {
+  const address = ip.replace(/^::ffff:/, '')
+  return Object.values(os.networkInterfaces()).some((aliases) =>
+    (aliases ?? []).some((alias) => alias.address === address)
+  )
+}
+
+export type AddressWatcherOptions = {
+  resolve: () => string;
+  onChange: (previous: string, current: string) => void;
+  intervalMs?: number;
+}
+
+// OS가 주소 변경 이벤트를 주지 않으므로 주기적으로 다시 확인
+export function watchAddress(options: AddressWatcherOptions): { stop: () => void } {
+  let current = options.resolve()
+  const timer = setInterval(() => {
+    const next = options.resolve()
+    if (next === current) return
+    const previous = current
+    current = next
+    options.onChange(previous, next)
+  }, options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS)
+
+  return {
+    stop: () => clearInterval(timer)
+  }
+}
@@ -0,0 +1,61 @@
+import * as net from 'net'
+
+export const DEFAULT_STUDENT_PORT = 3001
+export const DEFAULT_ADMIN_PORT = 3002
+
+// 0.0.0.0과 127.0.0.1 모두 비어 있어야 사용 가능한 포트로 판단
+// (Windows에서는 한쪽에만 바인딩된 포트가 충돌 없이 보이는 경우가 있음)
+const PROBE_HOSTS = ['0.0.0.0', '127.0.0.1']
+const MAX_PORT_TRIES = 50
+
+function probe(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer()
+    server.unref()
+    server.once('error', () => resolve(false))
+    server.listen({ port, host, exclusive: true }, () => {
+      server.close(() => resolve(true))
+    })
+  })
+}
+
+export async function isPortFree(port: number): Promise<boolean> {
+  for (const host of PROBE_HOSTS) {
+    if (!(await probe(port, host))) return false
+  }
+  return true
+}
+
+// preferred부터 1씩 올려가며 비어 있는 포트를 찾음 (taken에 있는 포트는 건너뜀)
+export async function findFreePort(preferred: number, taken: Set<number> = new Set()): Promise<number> {
+  for (let port = preferred; port < preferred + MAX_PORT_TRIES && port <= 65535; port++) {
+    if (taken.has(port)) continue
+    if (await isPortFree(port)) return port
+  }
+  throw new Error(`No free port found in range ${preferred}-${preferred + MAX_PORT_TRIES - 1} (EADDRINUSE)`)
+}
+
+// 서비스별 선호 포트를 받아 서로 겹치지 않는 실제 포트를 배정
+// taken: 다른 수업 세션이 이미 배정받은 포트 (아직 바인딩 전이어도 건너뜀)
+export async function allocatePorts<T extends { [name: string]: number | undefined }>(
+  preferred: T,
+  onFallback?: (name: keyof T & string, from: number, to: number) => void,
+  taken: Set<number> = new Set()
+): Promise<T> {
+  const names = (Object.keys(preferred) as (keyof T & string)[]).filter((name) => preferred[name] !== undefined)
+  const result: { [name: string]: number | undefined } = {}
+
+  // 대체 포트가 다른 서비스의 기본 포트를 빼앗지 않도록 선호 포트는 모두 예약해 둠
+  const reserved = new Set<number>(names.map((name) => preferred[name]!))
+  for (const name of names) {
+    const want = preferred[name]!
+    const others = new Set([...taken, ...[...reserved].filter((port) => port !== want)])
+    const port = await findFreePort(want, others)
+    if (port !== want) onFallback?.(name, want, port)
+    reserved.delete(want)
+    reserved.add(port)
+    result[name] = port
+  }
+
+  return result as T
+}
@@ -0,0 +1,246 @@
+import * as fs from 'fs'
+import { promises as dns } from 'dns'
+import path from 'path'
+import type { ErrorCode, HostsStatus, PreflightCheck, PreflightReport, ServerProfile } from '../shared/types'
+import { probeUrl } from './readiness'
+
+// 저장소를 아직 받지 않아 engines를 읽을 수 없을 때 쓰는 기준
+const DEFAULT_NODE_RANGE = '>=18'
+const GB = 1024 * 1024 * 1024
+const DISK_FAIL_BYTES = 1 * GB
+const DISK_WARN_BYTES = 2 * GB
+// Windows 기본 경로 길이 제한과 node_modules 안쪽 경로가 차지하는 대략적인 길이
+const WINDOWS_MAX_PATH = 260
+const NODE_MODULES_PATH_ALLOWANCE = 120
+
+export type PreflightInput = {
+  runTool: (cmd: string, args: string[], cwd?: string) => Promise<string>;  // 출력을 문자열로 반환
+  workspaceDir: string;
+  frontendDir: string;
+  profile: ServerProfile;
+  localBackend: boolean;    // 로컬 백엔드를 쓰면 원격 서버 확인을 건너뜀
+  hostsStatus: () => Promise<HostsStatus>;
+}
+
+type CheckResult = Omit<PreflightCheck, 'id' | 'label'>
+
+const pass = (message: string): CheckResult => ({ result: 'pass', message })
+const warn = (message: string): CheckResult => ({ result: 'warn', message })
+const fail = (code: ErrorCode, message: string): CheckResult => ({ result: 'fail', message, code })
+
+function parseVersion(text: string): number[] | null {
+  const match = /(\d+)\.(\d+)\.(\d+)/.exec(text)
+  return match ? match.slice(1).map(Number) : null
+}
+
+function compare(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+// engines에 흔히 쓰는 범위(>=, <, ^, ~, x, ||)만 해석하고 모르는 형식이면 null
+function satisfiesRange(version: number[], range: string): boolean | null {
+  const comparator = /^(>=|<=|>|<|=|\^|~)?v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/
+
+  const alternatives = range.split('||').map((part) => part.trim()).filter(Boolean)
+  if (alternatives.length === 0) return null
+
+  let parsedAny = false
+  for (const alternative of alternatives) {
+    let ok = true
+    for (const token of alternative.split(/\s+/)) {
+      const match = comparator.exec(token)
+      if (!match) return null
+      parsedAny = true
+      const [, op = '', majorText, minorText, patchText] = match
+      const major = Number(majorText)
+      const minorWild = minorText === undefined || minorText === 'x' || minorText === '*'
+      const patchWild = patchText === undefined || patchText === 'x' || patchText === '*'
+      const base = [major, minorWild ? 0 : Number(minorText), patchWild ? 0 : Number(patchText)]
+      const cmp = compare(version, base)
+
+      let upper: number[] | null = null
+      if (op === '^') upper = major > 0 ? [major + 1, 0, 0] : [0, base[1] + 1, 0]
+      else if (op === '~') upper = minorWild ? [major + 1, 0, 0] : [major, base[1] + 1, 0]
+      else if (op === '' || op === '=') {
+        if (minorWild) upper = [major + 1, 0, 0]
+        else if (patchWild) upper = [major, base[1] + 1, 0]
+      }
+
+      switch (op) {
+        case '>=': ok &&= cmp >= 0; break
+        case '>': ok &&= cmp > 0; break
+        case '<=': ok &&= cmp <= 0; break
+        case '<': ok &&= cmp < 0; break
+        default:
+          ok &&= upper ? cmp >= 0 && compare(version, upper) < 0 : cmp === 0
+      }
+    }
+    if (ok) return true
+  }
+  return parsedAny ? false : null
+}
+
+function readPackageJson(dir: string): any | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+// 아직 만들어지지 않은 작업 폴더는 가장 가까운 기존 상위 폴더로 확인
+function existingAncestor(dir: string): string {
+  let current = path.resolve(dir)
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+  return current
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / GB).toFixed(1)}GB`
+}
+
+async function toolVersion(input: PreflightInput, cmd: string, cwd?: string): Promise<string | null> {
+  try {
+    return (await input.runTool(cmd, ['--version'], cwd)).split('\n')[0].trim()
+  } catch {
+    return null
+  }
+}
+
+async function checkGit(input: PreflightInput): Promise<CheckResult> {
+  const version = await toolVersion(input, 'git')
+  return version ? pass(version) : fail('GIT_NOT_FOUND', 'Git이 설치되지 않았습니다')
+}
+
+async function checkNode(input: PreflightInput): Promise<CheckResult> {
+  const output = await toolVersion(input, 'node')
+  if (!output) return fail('NODE_NOT_FOUND', 'Node.js가 설치되지 않았습니다')
+
+  const version = parseVersion(output)
+  const engines = readPackageJson(input.frontendDir)?.engines?.node
+  const range = typeof engines === 'string' ? engines : DEFAULT_NODE_RANGE
+  const source = typeof engines === 'string' ? '수업 저장소 요구 버전' : '기본 요구 버전'
+  const ok = version ? satisfiesRange(version, range) : null
+
+  if (ok === null) return warn(`Node.js ${output} (${source} ${range}을 확인할 수 없습니다)`)
+  if (!ok) return fail('NODE_VERSION_UNSUPPORTED', `Node.js ${output}는 ${source}(${range})에 맞지 않습니다`)
+  return pass(`Node.js ${output} (${source} ${range})`)
+}
+
+// packageManager 필드(yarn@4.x)가 있으면 같은 메이저 버전인지 확인
+// 저장소 폴더에서 실행해야 corepack이 고정한 버전이 나옴
+async function checkYarn(input: PreflightInput): Promise<CheckResult> {
+  const cmd = process.platform === 'win32' ? 'yarn.cmd' : 'yarn'
+  const cwd = fs.existsSync(input.frontendDir) ? input.frontendDir : undefined
+  const output = await toolVersion(input, cmd, cwd)
+  if (!output) return fail('YARN_NOT_FOUND', 'Yarn이 설치되지 않았습니다')
+
+  const version = parseVersion(output)
+  const packageManager = readPackageJson(input.frontendDir)?.packageManager
+  const required = typeof packageManager === 'string' ? /^yarn@(\d+)\./.exec(packageManager) : null
+  if (!required) return pass(`Yarn ${output}`)
+
+  if (!version || version[0] !== Number(required[1])) {
+    return fail('YARN_VERSION_UNSUPPORTED', `Yarn ${output} 대신 ${required[1]}.x 버전이 필요합니다 (corepack enable 필요)`)
+  }
+  return pass(`Yarn ${output} (요구 버전 ${required[1]}.x)`)
+}
+
+async function checkDiskSpace(input: PreflightInput): Promise<CheckResult> {
+  const target = existingAncestor(input.workspaceDir)
+  const stats = await fs.promises.statfs(target)
+  const free = stats.bavail * stats.bsize
+  if (free < DISK_FAIL_BYTES) return fail('DISK_FULL', `여유 공간 ${formatBytes(free)} (최소 ${formatBytes(DISK_FAIL_BYTES)} 필요)`)
+  if (free < DISK_WARN_BYTES) return warn(`여유 공간 ${formatBytes(free)} (${formatBytes(DISK_WARN_BYTES)} 이상 권장)`)
+  return pass(`여유 공간 ${formatBytes(free)}`)
+}
+
+async function checkWritePermission(input: PreflightInput): Promise<CheckResult> {
+  const target = existingAncestor(input.workspaceDir)
+  const probe = path.join(target, `.mozu-write-test-${process.pid}`)
+  try {
+    await fs.promises.writeFile(probe, '')
+    await fs.promises.rm(probe, { force: true })
+    return pass(`${target}에 쓸 수 있습니다`)
+  } catch (err: any) {
+    return fail('PERMISSION_DENIED', `${target}에 파일을 만들 수 없습니다 (${err?.code || err?.message || err})`)
+  }
+}
+
+async function checkLongPaths(input: PreflightInput): Promise<CheckResult> {
+  if (process.platform !== 'win32') return pass('경로 길이 제한 없음')
+
+  const length = path.resolve(input.workspaceDir).length
+  if (length >= WINDOWS_MAX_PATH) {
+    return fail('WORKSPACE_PATH_TOO_LONG', `작업 폴더 경로가 ${length}자로 너무 깁니다`)
+  }
+
+  let longPathsEnabled = false
+  try {
+    const output = await input.runTool('reg', ['query', 'HKLM\\SYSTEM\\CurrentControlSet\\Control\\FileSystem', '/v', 'LongPathsEnabled'])
+    longPathsEnabled = /LongPathsEnabled\s+REG_DWORD\s+0x1\b/i.test(output)
+  } catch {
+    // 값이 없으면 기본값(사용 안 함)
+  }
+
+  if (longPathsEnabled) return pass(`긴 경로 지원 사용 중 (작업 폴더 ${length}자)`)
+  if (length + NODE_MODULES_PATH_ALLOWANCE > WINDOWS_MAX_PATH) {
+    return warn(`작업 폴더 경로(${length}자)가 길어 설치 중 경로 길이 제한에 걸릴 수 있습니다. 더 짧은 폴더를 권장합니다`)
+  }
+  return pass(`작업 폴더 경로 ${length}자`)
+}
+
+// hosts 파일에 등록되어 있으면 통과, 없으면 OS 리졸버가 풀어 주는지 확인
+async function checkAdminHost(input: PreflightInput): Promise<CheckResult> {
+  const hosts = await input.hostsStatus()
+  if (hosts.error) return warn(`hosts 파일을 확인하지 못했습니다: ${hosts.error}`)
+  if (hosts.mapped) return pass(`hosts 파일에 등록됨${hosts.managed ? ' (런처가 관리)' : ''}${hosts.dryRun ? ` [dry-run: ${hosts.path}]` : ''}`)
+
+  try {
+    const addresses = await dns.lookup('admin.localhost', { all: true })
+    const loopback = addresses.every((a) => a.address === '::1' || a.address.startsWith('127.'))
+    if (loopback) return pass('admin.localhost 주소 확인됨 (hosts 파일에는 없음)')
+    return warn(`admin.localhost가 ${addresses.map((a) => a.address).join(', ')}(으)로 연결됩니다. hosts 파일에 추가해주세요`)
+  } catch {
+    return warn('admin.localhost 주소를 찾을 수 없습니다. hosts 파일에 추가하지 않으면 관리자 사이트가 열리지 않을 수 있습니다')
+  }
+}
+
+async function checkServer(input: PreflightInput): Promise<CheckResult> {
+  if (input.localBackend) return pass('이 컴퓨터에서 서버를 함께 실행합니다')
+  if (await probeUrl(input.profile.serverUrl)) return pass(`${input.profile.serverUrl} 응답 확인`)
+  return fail('SERVER_UNREACHABLE', `${input.profile.name}(${input.profile.serverUrl})에 연결할 수 없습니다`)
+}
+
+// 모든 항목을 함께 확인하고 결과를 한 번에 돌려줌 (하나가 실패해도 나머지는 계속)
+export async function runPreflight(input: PreflightInput): Promise<PreflightReport> {
+  const checks: { id: string; label: string; run: () => Promise<CheckResult> }[] = [
+    { id: 'git', label: 'Git', run: () => checkGit(input) },
+    { id: 'node', label: 'Node.js 버전', run: () => checkNode(input) },
+    { id: 'yarn', label: 'Yarn 버전', run: () => checkYarn(input) },
+    { id: 'disk', label: '저장 공간', run: () => checkDiskSpace(input) },
+    { id: 'write', label: '폴더 쓰기 권한', run: () => checkWritePermission(input) },
+    { id: 'long-path', label: '경로 길이', run: () => checkLongPaths(input) },
+    { id: 'admin-host', label: 'admin.localhost', run: () => checkAdminHost(input) },
+    { id: 'server', label: `수업 서버 (${input.profile.name})`, run: () => checkServer(input) }
+  ]
+
+  const results = await Promise.all(checks.map(async (check) => {
+    let result: CheckResult
+    try {
+      result = await check.run()
+    } catch (err: any) {
+      result = warn(`확인하지 못했습니다: ${err?.message || err}`)
+    }
+    return { id: check.id, label: check.label, ...result }
+  }))
+
+  return { checkedAt: Date.now(), checks: results }
+}
@@ -1,9 +1,9 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { RepoConfig, LaunchStatus } from '../shared/types'
+import type { RepoConfig, EnvOverrides, RenderedEnvFile, ServerProfile, LauncherSettings, LogBatch, LogEntry, LaunchError, ErrorCatalog, PreflightReport, HostsStatus, NetworkInterfaceInfo, ConnectedClient, SessionStatuses, SessionStatusUpdate, SessionClientsUpdate, LessonRecord } from '../shared/types'
 
 // 화이트리스트 채널 (메인에서 실제로 쓰는 채널만 노출)
-const INVOKE_CHANNELS = new Set(['choose-dir', 'start-mock', 'start-lesson', 'stop-mock', 'open-external', 'get-local-ip'] as const)
-const ON_CHANNELS = new Set(['status-update'] as const)
+const INVOKE_CHANNELS = new Set(['choose-dir', 'start-mock', 'start-lesson', 'stop-mock', 'open-external', 'get-local-ip', 'list-remote-refs', 'get-last-good-revision', 'preview-env-files', 'get-env-overrides', 'set-env-overrides', 'list-server-profiles', 'save-server-profile', 'delete-server-profile', 'select-server-profile', 'check-server-profile', 'get-settings', 'save-settings', 'export-settings', 'import-settings', 'get-log-history', 'export-diagnostics', 'get-error-catalog', 'run-preflight', 'get-hosts-status', 'install-hosts-entry', 'remove-hosts-entry', 'list-network-interfaces', 'get-status', 'open-projector', 'get-clients', 'set-lesson-pin', 'export-ca-certificate', 'get-lesson-history', 'export-lesson-history'] as const)
+const ON_CHANNELS = new Set(['status-update', 'log-entries', 'clients-update'] as const)
 
 function safeInvoke<T = any>(channel: string, ...args: any[]): Promise<T> {
   if (!INVOKE_CHANNELS.has(channel as any)) {
@@ -12,19 +12,18 @@ function safeInvoke<T = any>(channel: string, ...args: any[]): Promise<T> {
   return ipcRenderer.invoke(channel, ...args)
 }
 
-function onStatusUpdate(cb: (status: LaunchStatus) => void): () => void {
-  const channel = 'status-update'
+function subscribe<T>(channel: string, cb: (payload: T) => void): () => void {
   if (!ON_CHANNELS.has(channel as any)) {
     // 이 경우는 거의 없지만, 방어적으로 처리
     return () => {}
   }
-  const handler = (_: Electron.IpcRendererEvent, payload: LaunchStatus) => {
+  const handler = (_: Electron.IpcRendererEvent, payload: T) => {
     try {
       cb(payload)
     } catch (e) {
       // 렌더러 콜백 에러가 메인 프로세스까지 전파되지 않도록
       // eslint-disable-next-line no-console
-      console.error('[preload] onStatusUpdate callback error:', e)
+      console.error(`[preload] ${channel} callback error:`, e)
     }
   }
   ipcRenderer.on(channel, handler)
@@ -34,14 +33,60 @@ function onStatusUpdate(cb: (status: LaunchStatus) => void): () => void {
   }
 }
 
+// 수업 세션마다 따로 전달됨 (세션 ID로 구분)
+function onStatusUpdate(cb: (update: SessionStatusUpdate) => void): () => void {
+  return subscribe('status-update', cb)
+}
+
+// 새 로그 항목만 묶어서 전달됨 (이전 기록은 getLogHistory로 조회, 세션 ID가 ''이면 런처 전체 로그)
+function onLogEntries(cb: (batch: LogBatch) => void): () => void {
+  return subscribe('log-entries', cb)
+}
+
+// 학생 프록시가 집계한 세션별 접속 기기 전체 목록 (변경이 있을 때만 주기적으로 전달)
+function onClientsUpdate(cb: (update: SessionClientsUpdate) => void): () => void {
+  return subscribe('clients-update', cb)
+}
+
 contextBridge.exposeInMainWorld('api', {
   chooseDir: (): Promise<string | null> => safeInvoke('choose-dir'),
-  startMock: (config: RepoConfig): Promise<{ ok: boolean; error?: string }> => safeInvoke('start-mock', config),
-  startLesson: (config: RepoConfig): Promise<{ ok: boolean; error?: string }> => safeInvoke('start-lesson', config),
-  stopMock: (): Promise<{ ok: boolean }> => safeInvoke('stop-mock'),
+  startMock: (config: RepoConfig, sessionId: string): Promise<{ ok: boolean; error?: string; failure?: LaunchError; cancelled?: boolean }> => safeInvoke('start-mock', config, sessionId),
+  startLesson: (config: RepoConfig, sessionId: string): Promise<{ ok: boolean; error?: string; failure?: LaunchError; cancelled?: boolean }> => safeInvoke('start-lesson', config, sessionId),
+  stopMock: (sessionId: string): Promise<{ ok: boolean }> => safeInvoke('stop-mock', sessionId),
+  getStatus: (): Promise<SessionStatuses> => safeInvoke('get-status'),
+  openProjector: (sessionId: string): Promise<{ ok: boolean }> => safeInvoke('open-projector', sessionId),
   openExternal: (url: string): Promise<void> => safeInvoke('open-external', url),
   getLocalIP: (): Promise<string> => safeInvoke('get-local-ip'),
-  onStatusUpdate
+  listNetworkInterfaces: (): Promise<NetworkInterfaceInfo[]> => safeInvoke('list-network-interfaces'),
+  listRemoteRefs: (repoUrl: string): Promise<{ branches: string[]; tags: string[] }> => safeInvoke('list-remote-refs', repoUrl),
+  getLastGoodRevision: (repoUrl: string): Promise<string | null> => safeInvoke('get-last-good-revision', repoUrl),
+  previewEnvFiles: (config: RepoConfig, sessionId?: string): Promise<RenderedEnvFile[]> => safeInvoke('preview-env-files', config, sessionId),
+  getEnvOverrides: (): Promise<EnvOverrides> => safeInvoke('get-env-overrides'),
+  setEnvOverrides: (overrides: EnvOverrides): Promise<{ ok: boolean }> => safeInvoke('set-env-overrides', overrides),
+  listServerProfiles: (): Promise<{ profiles: ServerProfile[]; selectedId: string }> => safeInvoke('list-server-profiles'),
+  saveServerProfile: (profile: ServerProfile): Promise<{ ok: boolean; profile?: ServerProfile; error?: string }> => safeInvoke('save-server-profile', profile),
+  deleteServerProfile: (id: string): Promise<{ ok: boolean }> => safeInvoke('delete-server-profile', id),
+  selectServerProfile: (id: string): Promise<{ ok: boolean }> => safeInvoke('select-server-profile', id),
+  checkServerProfile: (profile: ServerProfile): Promise<boolean> => safeInvoke('check-server-profile', profile),
+  getSettings: (): Promise<LauncherSettings> => safeInvoke('get-settings'),
+  saveSettings: (patch: Partial<LauncherSettings>): Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }> => safeInvoke('save-settings', patch),
+  exportSettings: (): Promise<{ ok: boolean; path?: string; error?: string }> => safeInvoke('export-settings'),
+  importSettings: (): Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }> => safeInvoke('import-settings'),
+  getLogHistory: (sessionId?: string): Promise<LogEntry[]> => safeInvoke('get-log-history', sessionId),
+  exportDiagnostics: (): Promise<{ ok: boolean; path?: string; error?: string }> => safeInvoke('export-diagnostics'),
+  getErrorCatalog: (): Promise<ErrorCatalog> => safeInvoke('get-error-catalog'),
+  runPreflight: (config: RepoConfig): Promise<PreflightReport> => safeInvoke('run-preflight', config),
+  getHostsStatus: (): Promise<HostsStatus> => safeInvoke('get-hosts-status'),
+  installHostsEntry: (): Promise<{ ok: boolean; status?: HostsStatus; error?: string }> => safeInvoke('install-hosts-entry'),
+  removeHostsEntry: (): Promise<{ ok: boolean; status?: HostsStatus; error?: string }> => safeInvoke('remove-hosts-entry'),
+  getClients: (sessionId: string): Promise<ConnectedClient[]> => safeInvoke('get-clients', sessionId),
+  setLessonPin: (sessionId: string, pin: string): Promise<{ ok: boolean; error?: string }> => safeInvoke('set-lesson-pin', sessionId, pin),
+  exportCaCertificate: (): Promise<{ ok: boolean; path?: string; error?: string }> => safeInvoke('export-ca-certificate'),
+  getLessonHistory: (): Promise<LessonRecord[]> => safeInvoke('get-lesson-history'),
+  exportLessonHistory: (failuresOnly: boolean): Promise<{ ok: boolean; path?: string; error?: string }> => safeInvoke('export-lesson-history', failuresOnly),
+  onStatusUpdate,
+  onLogEntries,
+  onClientsUpdate
 })
 
 // (선택) 전역 타입 보강: TS에서 window.api 호출 시 타입 완성도↑
@@ -49,12 +94,43 @@ declare global {
   interface Window {
     api: {
       chooseDir: () => Promise<string | null>
-      startMock: (config: RepoConfig) => Promise<{ ok: boolean; error?: string }>
-      startLesson: (config: RepoConfig) => Promise<{ ok: boolean; error?: string }>
-      stopMock: () => Promise<{ ok: boolean }>
+      startMock: (config: RepoConfig, sessionId: string) => Promise<{ ok: boolean; error?: string; failure?: LaunchError; cancelled?: boolean }>
+      startLesson: (config: RepoConfig, sessionId: string) => Promise<{ ok: boolean; error?: string; failure?: LaunchError; cancelled?: boolean }>
+      stopMock: (sessionId: string) => Promise<{ ok: boolean }>
+      getStatus: () => Promise<SessionStatuses>
+      openProjector: (sessionId: string) => Promise<{ ok: boolean }>
       openExternal: (url: string) => Promise<void>
       getLocalIP: () => Promise<string>
-      onStatusUpdate: (cb: (status: LaunchStatus) => void) => () => void
+      listNetworkInterfaces: () => Promise<NetworkInterfaceInfo[]>
+      listRemoteRefs: (repoUrl: string) => Promise<{ branches: string[]; tags: string[] }>
+      getLastGoodRevision: (repoUrl: string) => Promise<string | null>
+      previewEnvFiles: (config: RepoConfig, sessionId?: string) => Promise<RenderedEnvFile[]>
+      getEnvOverrides: () => Promise<EnvOverrides>
+      setEnvOverrides: (overrides: EnvOverrides) => Promise<{ ok: boolean }>
+      listServerProfiles: () => Promise<{ profiles: ServerProfile[]; selectedId: string }>
+      saveServerProfile: (profile: ServerProfile) => Promise<{ ok: boolean; profile?: ServerProfile; error?: string }>
+      deleteServerProfile: (id: string) => Promise<{ ok: boolean }>
+      selectServerProfile: (id: string) => Promise<{ ok: boolean }>
+      checkServerProfile: (profile: ServerProfile) => Promise<boolean>
+      getSettings: () => Promise<LauncherSettings>
+      saveSettings: (patch: Partial<LauncherSettings>) => Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }>
+      exportSettings: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      importSettings: () => Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }>
+      getLogHistory: (sessionId?: string) => Promise<LogEntry[]>
+      exportDiagnostics: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      getErrorCatalog: () => Promise<ErrorCatalog>
+      runPreflight: (config: RepoConfig) => Promise<PreflightReport>
+      getHostsStatus: () => Promise<HostsStatus>
+      installHostsEntry: () => Promise<{ ok: boolean; status?: HostsStatus; error?: string }>
+      removeHostsEntry: () => Promise<{ ok: boolean; status?: HostsStatus; error?: string }>
+      getClients: (sessionId: string) => Promise<ConnectedClient[]>
+      setLessonPin: (sessionId: string, pin: string) => Promise<{ ok: boolean; error?: string }>
+      exportCaCertificate: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      getLessonHistory: () => Promise<LessonRecord[]>
+      exportLessonHistory: (failuresOnly: boolean) => Promise<{ ok: boolean; path?: string; error?: string }>
+      onStatusUpdate: (cb: (update: SessionStatusUpdate) => void) => () => void
+      onLogEntries: (cb: (batch: LogBatch) => void) => () => void
+      onClientsUpdate: (cb: (update: SessionClientsUpdate) => void) => () => void
     }
   }
 }
@@ -0,0 +1,79 @@
+import * as http from 'http'
+import * as https from 'https'
+import * as net from 'net'
+import { URL } from 'url'
+
+const PROBE_TIMEOUT_MS = 3000
+const POLL_INTERVAL_MS = 1000
+
+// 제한 시간 안에 사이트가 응답하지 않은 경우 (프로세스 종료 등 다른 실패와 구분하기 위한 별도 에러)
+export class ReadinessTimeoutError extends Error {
+  readonly code = 'READINESS_TIMEOUT'
+  constructor(readonly pending: string[], readonly timeoutMs: number) {
+    super(`사이트가 ${Math.round(timeoutMs / 1000)}초 안에 응답하지 않았습니다 (READINESS_TIMEOUT): ${pending.join(', ')}`)
+    this.name = 'ReadinessTimeoutError'
+  }
+}
+
+type WaitOptions = {
+  timeoutMs: number;
+  isAlive?: () => boolean;                          // false가 되면 즉시 실패 (예: 자식 프로세스 종료)
+  onProgress?: (ready: string[], pending: string[]) => void;
+  ca?: string;                                      // HTTPS 모드에서 런처가 만든 로컬 CA
+}
+
+// HTTP 응답이 오면(5xx 제외) 준비된 것으로 판단
+// *.localhost 호스트는 OS 리졸버에 따라 풀리지 않을 수 있어 127.0.0.1로 접속하고 Host 헤더만 유지
+export function probeUrl(url: string, ca?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    let target: URL
+    try {
+      target = new URL(url)
+    } catch {
+      resolve(false)
+      return
+    }
+
+    const isLocalhostAlias = target.hostname.endsWith('.localhost')
+    const isHttps = target.protocol === 'https:'
+    const req = (isHttps ? https : http).get({
+      host: isLocalhostAlias ? '127.0.0.1' : target.hostname,
+      // IP 주소는 SNI로 보낼 수 없음 (인증서 확인은 host로 함)
+      servername: isHttps && !net.isIP(target.hostname) ? target.hostname : undefined,
+      port: target.port || (isHttps ? 443 : 80),
+      path: `${target.pathname}${target.search}`,
+      headers: { Host: target.host },
+      timeout: PROBE_TIMEOUT_MS,
+      ...(isHttps && ca ? { ca } : {})
+    }, (res) => {
+      res.resume()
+      resolve((res.statusCode ?? 500) < 500)
+    })
+    req.on('timeout', () => req.destroy())
+    req.on('error', () => resolve(false))
+  })
+}
+
+// 모든 url이 응답할 때까지 폴링
+export async function waitForReady(urls: string[], options: WaitOptions): Promise<void> {
+  const deadline = Date.now() + options.timeoutMs
+  const pending = new Set(urls)
+
+  while (pending.size > 0) {
+    if (options.isAlive && !options.isAlive()) {
+      throw new Error(`Process exited before ${[...pending].join(', ')} became ready`)
+    }
+
+    const results = await Promise.all([...pending].map(async (url) => [url, await probeUrl(url, options.ca)] as const))
+    for (const [url, ok] of results) {
+      if (ok) pending.delete(url)
+    }
+    options.onProgress?.(urls.filter((u) => !pending.has(u)), [...pending])
+    if (pending.size === 0) return
+
+    if (Date.now() >= deadline) {
+      throw new ReadinessTimeoutError([...pending], options.timeoutMs)
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS))
+  }
+}
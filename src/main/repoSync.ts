@@ -0,0 +1,250 @@
+import * as fs from 'fs'
+import path from 'path'
+
+// git 실행은 호출 측(main)의 실행/로그 방식을 그대로 쓰도록 주입받음
+export type GitRunner = {
+  run: (args: string[], cwd: string) => Promise<void>;        // 출력은 로그로 스트리밍
+  capture: (args: string[], cwd: string) => Promise<string>;  // 출력을 문자열로 반환
+  log: (line: string) => void;
+}
+
+export type SyncTarget = {
+  branch?: string;
+  ref?: string;          // 태그/커밋 고정 (branch보다 우선)
+}
+
+const PARTIAL_SUFFIX = '.partial'
+const COMMIT_SHA = /^[0-9a-f]{7,40}$/i
+const AUTOSTASH_MESSAGE = 'mozu-launcher autostash'
+// 오래된 자동 stash는 이 개수만 남기고 정리
+const MAX_AUTOSTASHES = 5
+// 의존성 설치가 다시 쓰는 파일 (이것만 바뀌었으면 stash하지 않고 reset으로 되돌림)
+const INSTALL_LOCKFILES = new Set(['yarn.lock', 'package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml'])
+const BACKUP_BRANCH_PREFIX = 'mozu-backup/'
+
+async function tryCapture(git: GitRunner, args: string[], cwd: string): Promise<string | null> {
+  try {
+    return await git.capture(args, cwd)
+  } catch {
+    return null
+  }
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-')
+}
+
+// 저장소 주소는 git에 그대로 넘기므로 https/ssh/git 주소만 허용 ('--upload-pack=...' 같은 옵션 주입 방지)
+export function isSupportedRepoUrl(url: string): boolean {
+  if (/^(https|ssh|git):\/\/[^\s/-][^\s/]*\/\S+$/i.test(url)) return true
+  // scp 형식 SSH 주소 (git@github.com:team/repo.git)
+  return /^[\w.-]+@[\w.-]+:[\w.~/-]+$/.test(url) && !url.startsWith('-')
+}
+
+function assertSupportedRepoUrl(url: string) {
+  if (!isSupportedRepoUrl(url)) throw new Error(`지원하지 않는 저장소 주소입니다 (https, ssh, git 주소만 가능): ${url}`)
+}
+
+function normalizeRemote(url: string): string {
+  return url.trim().replace(/\.git$/, '').replace(/\/$/, '').toLowerCase()
+}
+
+// 저장소가 재사용할 수 없는 상태면 그 이유를, 정상이면 null을 반환
+async function diagnoseBrokenClone(git: GitRunner, repoUrl: string, targetDir: string): Promise<string | null> {
+  if (!fs.existsSync(path.join(targetDir, '.git'))) {
+    return '.git directory is missing'
+  }
+  if (await tryCapture(git, ['rev-parse', '--is-inside-work-tree'], targetDir) !== 'true') {
+    return '.git directory is corrupt'
+  }
+  // 클론 도중 중단되면 커밋이 하나도 없는 상태가 됨
+  if (await tryCapture(git, ['rev-parse', '--verify', '--quiet', 'HEAD^{commit}'], targetDir) === null) {
+    return 'HEAD does not point to a valid commit (half-finished clone?)'
+  }
+  if (await tryCapture(git, ['cat-file', '-e', 'HEAD^{tree}'], targetDir) === null) {
+    return 'HEAD tree object is missing'
+  }
+  const remote = await tryCapture(git, ['config', '--get', 'remote.origin.url'], targetDir)
+  if (!remote || normalizeRemote(remote) !== normalizeRemote(repoUrl)) {
+    return `origin points to ${remote || '(none)'} instead of ${repoUrl}`
+  }
+  return null
+}
+
+// 중단된 merge/rebase, 남은 index.lock 정리
+function clearInterruptedOperations(git: GitRunner, targetDir: string) {
+  const gitDir = path.join(targetDir, '.git')
+
+  const lock = path.join(gitDir, 'index.lock')
+  if (fs.existsSync(lock)) {
+    git.log('[git] Removing stale .git/index.lock')
+    fs.rmSync(lock, { force: true })
+  }
+
+  for (const name of ['rebase-merge', 'rebase-apply']) {
+    if (fs.existsSync(path.join(gitDir, name))) {
+      git.log(`[git] Clearing interrupted rebase (${name})`)
+      fs.rmSync(path.join(gitDir, name), { recursive: true, force: true })
+    }
+  }
+  for (const name of ['MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD']) {
+    if (fs.existsSync(path.join(gitDir, name))) {
+      git.log(`[git] Clearing interrupted operation (${name})`)
+      fs.rmSync(path.join(gitDir, name), { force: true })
+    }
+  }
+}
+
+// 추적 중인 파일의 로컬 수정사항은 버리지 않고 stash로 보관
+async function stashLocalChanges(git: GitRunner, targetDir: string) {
+  const dirty = await tryCapture(git, ['status', '--porcelain', '--untracked-files=no'], targetDir)
+  if (!dirty) return
+
+  // 'XY path' 또는 이름이 바뀐 경우 'XY old -> new' (출력 앞뒤 공백은 잘려서 옴)
+  const files = dirty.split('\n').map((line) => line.trim().replace(/^\S+\s+/, '').split(' -> ').pop()!.replace(/^"|"$/g, ''))
+  if (files.every((file) => INSTALL_LOCKFILES.has(path.posix.basename(file)))) {
+    git.log(`[git] Only lockfiles changed by install (${files.join(', ')}), discarding them`)
+    return
+  }
+
+  git.log(`[git] Local modifications detected (${files.length} files), stashing them`)
+  try {
+    await git.run(['stash', 'push', '-m', `${AUTOSTASH_MESSAGE} ${timestamp()}`], targetDir)
+  } catch {
+    // stash가 불가능한 상태(인덱스 손상 등)면 이후 reset --hard로 정리됨
+    git.log('[git] Stash failed, local modifications will be discarded by reset')
+    return
+  }
+  await pruneAutostashes(git, targetDir)
+}
+
+// 런처가 만든 stash 중 최근 MAX_AUTOSTASHES개만 남김 (직접 만든 stash는 건드리지 않음)
+async function pruneAutostashes(git: GitRunner, targetDir: string) {
+  const list = await tryCapture(git, ['stash', 'list', '--format=%gd %s'], targetDir)
+  if (!list) return
+  const indexes = list.split('\n')
+    .filter((line) => line.includes(AUTOSTASH_MESSAGE))
+    .map((line) => Number(/^stash@\{(\d+)\}/.exec(line)?.[1]))
+    .filter((index) => Number.isInteger(index))
+  // 뒤쪽(오래된) 것부터 지워야 앞쪽 번호가 바뀌지 않음
+  const stale = indexes.slice(MAX_AUTOSTASHES).sort((a, b) => b - a)
+  if (stale.length === 0) return
+  git.log(`[git] Dropping ${stale.length} old launcher autostash(es)`)
+  for (const index of stale) {
+    await tryCapture(git, ['stash', 'drop', `stash@{${index}}`], targetDir)
+  }
+}
+
+// UI나 가져온 설정에서 온 이름이 git 옵션('-'로 시작)으로 해석되지 않도록 실행 전에 형식을 확인
+async function assertRefName(git: GitRunner, name: string, cwd: string) {
+  if (name.startsWith('-') || await tryCapture(git, ['check-ref-format', '--allow-onelevel', name], cwd) === null) {
+    throw new Error(`잘못된 브랜치/태그 이름입니다: ${name}`)
+  }
+}
+
+async function resolveBranch(git: GitRunner, target: SyncTarget, targetDir: string): Promise<string> {
+  if (target.branch) return target.branch
+
+  const current = await tryCapture(git, ['rev-parse', '--abbrev-ref', 'HEAD'], targetDir)
+  if (current && current !== 'HEAD') return current
+
+  // 분리된 HEAD면 원격 기본 브랜치 사용
+  const remoteHead = await tryCapture(git, ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'], targetDir)
+  return remoteHead ? remoteHead.replace(/^origin\//, '') : 'main'
+}
+
+// 로컬 브랜치를 원격과 똑같이 맞춤 (강제 푸시로 히스토리가 갈라진 경우 포함)
+async function resetToBranch(git: GitRunner, branch: string, targetDir: string) {
+  await assertRefName(git, branch, targetDir)
+  const remoteRef = `origin/${branch}`
+  if (await tryCapture(git, ['rev-parse', '--verify', '--quiet', `${remoteRef}^{commit}`], targetDir) === null) {
+    throw new Error(`원격 저장소에 ${branch} 브랜치가 없습니다.`)
+  }
+
+  const counts = await tryCapture(git, ['rev-list', '--left-right', '--count', `HEAD...${remoteRef}`], targetDir)
+  const [ahead] = (counts || '0\t0').split(/\s+/).map(Number)
+  if (ahead > 0) {
+    const backup = `${BACKUP_BRANCH_PREFIX}${timestamp()}`
+    git.log(`[git] Local history diverged from ${remoteRef} (${ahead} local commits), saving them as ${backup}`)
+    await git.run(['branch', '-f', backup, 'HEAD'], targetDir)
+  }
+
+  git.log(`[git] Resetting ${branch} to ${remoteRef}`)
+  await git.run(['checkout', '--force', '-B', branch, remoteRef], targetDir)
+  await git.run(['reset', '--hard', remoteRef], targetDir)
+}
+
+async function checkoutTarget(git: GitRunner, target: SyncTarget, targetDir: string) {
+  if (target.ref) {
+    if (!COMMIT_SHA.test(target.ref)) await assertRefName(git, target.ref, targetDir)
+    // 태그나 커밋에 고정 - 이후 실행에서도 pull 하지 않음
+    git.log(`[git] Checking out pinned revision: ${target.ref}`)
+    await git.run(['checkout', '--force', '--detach', target.ref], targetDir)
+    return
+  }
+  await resetToBranch(git, await resolveBranch(git, target, targetDir), targetDir)
+}
+
+// 임시 폴더에 클론한 뒤 완료되면 옮겨서, 중간에 끊겨도 반쯤 받은 저장소가 남지 않도록 함
+async function freshClone(git: GitRunner, repoUrl: string, targetDir: string, workspaceDir: string) {
+  const partialDir = targetDir + PARTIAL_SUFFIX
+  if (fs.existsSync(partialDir)) {
+    git.log(`[git] Removing leftover partial clone: ${path.basename(partialDir)}`)
+    fs.rmSync(partialDir, { recursive: true, force: true })
+  }
+
+  assertSupportedRepoUrl(repoUrl)
+  git.log(`[git] Cloning repository: ${repoUrl}`)
+  await git.run(['clone', '--', repoUrl, partialDir], workspaceDir)
+  fs.renameSync(partialDir, targetDir)
+}
+
+// 클론/업데이트 후 설정된 브랜치 또는 ref로 맞춤
+// 로컬 수정 → stash, 갈라진 히스토리 → 백업 브랜치 후 원격으로 reset, 손상/미완료 클론 → 백업 폴더로 옮기고 다시 클론
+export async function syncRepository(git: GitRunner, repoUrl: string, target: SyncTarget, targetDir: string, workspaceDir: string) {
+  if (fs.existsSync(targetDir)) {
+    // 작업 폴더는 교사가 고른 곳이라 직접 만든 파일이 있을 수 있으므로 지우지 않고 옆으로 옮겨 둠
+    const broken = await diagnoseBrokenClone(git, repoUrl, targetDir)
+    if (broken) {
+      const backupDir = `${targetDir}.backup-${timestamp()}`
+      git.log(`[git] ${path.basename(targetDir)} cannot be reused: ${broken}. Moving it to ${path.basename(backupDir)} and re-cloning.`)
+      fs.renameSync(targetDir, backupDir)
+    }
+  }
+
+  if (!fs.existsSync(targetDir)) {
+    await freshClone(git, repoUrl, targetDir, workspaceDir)
+  } else {
+    git.log(`[git] ${path.basename(targetDir)} directory exists, fetching latest changes...`)
+    clearInterruptedOperations(git, targetDir)
+    await git.run(['fetch', '--tags', '--prune', '--force', 'origin'], targetDir)
+    await stashLocalChanges(git, targetDir)
+  }
+
+  await checkoutTarget(git, target, targetDir)
+}
+
+export async function currentRevision(git: GitRunner, targetDir: string): Promise<string | undefined> {
+  return (await tryCapture(git, ['rev-parse', 'HEAD'], targetDir)) ?? undefined
+}
+
+// git ls-remote 결과에서 브랜치와 태그 목록 추출
+export async function listRemoteRefs(git: GitRunner, repoUrl: string, cwd: string): Promise<{ branches: string[]; tags: string[] }> {
+  assertSupportedRepoUrl(repoUrl)
+  const output = await git.capture(['ls-remote', '--heads', '--tags', '--', repoUrl], cwd)
+  const branches: string[] = []
+  const tags = new Set<string>()
+
+  for (const line of output.split('\n')) {
+    const refName = line.split('\t')[1]?.trim()
+    if (!refName) continue
+    if (refName.startsWith('refs/heads/')) {
+      branches.push(refName.slice('refs/heads/'.length))
+    } else if (refName.startsWith('refs/tags/')) {
+      // 주석 태그는 ^{}가 붙은 항목이 한 번 더 나옴
+      tags.add(refName.slice('refs/tags/'.length).replace(/\^\{\}$/, ''))
+    }
+  }
+
+  return { branches: branches.sort(), tags: [...tags].sort().reverse() }
+}
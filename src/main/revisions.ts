@@ -0,0 +1,33 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import path from 'path'
+
+// 저장소별로 마지막으로 수업이 정상 실행(running)된 리비전을 기록
+type RevisionRecord = {
+  sha: string;
+  ref?: string;          // 당시 선택한 브랜치/태그 (표시용)
+  recordedAt: string;
+}
+
+function storePath(): string {
+  return path.join(app.getPath('userData'), 'revisions.json')
+}
+
+function readStore(): Record<string, RevisionRecord> {
+  try {
+    return JSON.parse(fs.readFileSync(storePath(), 'utf-8'))
+  } catch {
+    return {}
+  }
+}
+
+export function getLastGoodRevision(repoUrl: string): RevisionRecord | null {
+  return readStore()[repoUrl] ?? null
+}
+
+export function recordGoodRevision(repoUrl: string, sha: string, ref?: string) {
+  const store = readStore()
+  store[repoUrl] = { sha, ref, recordedAt: new Date().toISOString() }
+  fs.mkdirSync(path.dirname(storePath()), { recursive: true })
+  fs.writeFileSync(storePath(), JSON.stringify(store, null, 2), 'utf-8')
+}
@@ -0,0 +1,68 @@
+import type { ServerProfile } from '../shared/types'
+import { loadSettings, saveSettings } from './settings'
+
+export const BUILTIN_PROFILES: ServerProfile[] = [
+  { id: 'staging', name: '스테이징 서버', serverUrl: 'https://mozu-v2-stag.dsmhs.kr', builtin: true },
+  { id: 'production', name: '운영 서버', serverUrl: 'https://mozu-v2.dsmhs.kr', builtin: true }
+]
+const DEFAULT_PROFILE_ID = 'staging'
+
+export function validateProfile(profile: ServerProfile) {
+  if (!profile.name?.trim()) {
+    throw new Error('서버 이름을 입력해주세요.')
+  }
+  if (!/^https?:\/\/[^\s/]+/.test(profile.serverUrl || '')) {
+    throw new Error('서버 주소는 http:// 또는 https:// 로 시작해야 합니다.')
+  }
+}
+
+export function listProfiles(log: (line: string) => void = () => {}): { profiles: ServerProfile[]; selectedId: string } {
+  const settings = loadSettings(log)
+  const profiles = [...BUILTIN_PROFILES, ...settings.serverProfiles]
+  const selectedId = profiles.some((p) => p.id === settings.serverProfileId) ? settings.serverProfileId : DEFAULT_PROFILE_ID
+  return { profiles, selectedId }
+}
+
+// id가 없거나 지워진 프로필이면 선택된 프로필(없으면 기본)로 대체
+export function getProfile(id?: string, log: (line: string) => void = () => {}): ServerProfile {
+  const { profiles, selectedId } = listProfiles(log)
+  return profiles.find((p) => p.id === id)
+    ?? profiles.find((p) => p.id === selectedId)
+    ?? BUILTIN_PROFILES[0]
+}
+
+export function saveProfile(profile: ServerProfile, log: (line: string) => void = () => {}): ServerProfile {
+  if (BUILTIN_PROFILES.some((p) => p.id === profile.id)) {
+    throw new Error('기본 제공 서버는 수정할 수 없습니다.')
+  }
+  validateProfile(profile)
+
+  const custom = [...loadSettings(log).serverProfiles]
+  const saved: ServerProfile = {
+    ...profile,
+    id: profile.id || `custom-${Date.now()}`,
+    name: profile.name.trim(),
+    serverUrl: profile.serverUrl.trim().replace(/\/$/, ''),
+    builtin: false
+  }
+  const index = custom.findIndex((p) => p.id === saved.id)
+  if (index >= 0) {
+    custom[index] = saved
+  } else {
+    custom.push(saved)
+  }
+  saveSettings({ serverProfiles: custom }, log)
+  return saved
+}
+
+export function deleteProfile(id: string, log: (line: string) => void = () => {}) {
+  const settings = loadSettings(log)
+  saveSettings({
+    serverProfiles: settings.serverProfiles.filter((p) => p.id !== id),
+    serverProfileId: settings.serverProfileId === id ? DEFAULT_PROFILE_ID : settings.serverProfileId
+  }, log)
+}
+
+export function selectProfile(id: string, log: (line: string) => void = () => {}) {
+  saveSettings({ serverProfileId: id }, log)
+}
@@ -0,0 +1,105 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import path from 'path'
+import type { LogEntry } from '../shared/types'
+
+// 수업 실행마다 파일 하나, 오래된 파일은 개수 기준으로 삭제
+const MAX_LOG_FILES = 20
+// 한 파일이 너무 커지면 같은 세션의 다음 파일로 넘어감
+const MAX_FILE_BYTES = 10 * 1024 * 1024
+
+export function logsDir(): string {
+  return path.join(app.getPath('userData'), 'logs')
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, '').replace(/\..+$/, '').replace('T', '-')
+}
+
+function formatEntry(entry: LogEntry): string {
+  return `${new Date(entry.time).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.source}] ${entry.text}\n`
+}
+
+// 최신 파일이 앞에 오도록 정렬 (파일명에 시작 시각이 들어 있음)
+export function recentLogFiles(limit = MAX_LOG_FILES): string[] {
+  try {
+    return fs.readdirSync(logsDir())
+      .filter((name) => name.startsWith('session-') && name.endsWith('.log'))
+      .sort()
+      .reverse()
+      .slice(0, limit)
+      .map((name) => path.join(logsDir(), name))
+  } catch {
+    return []
+  }
+}
+
+function pruneOldFiles() {
+  const keep = new Set(recentLogFiles(MAX_LOG_FILES))
+  for (const name of fs.readdirSync(logsDir())) {
+    const file = path.join(logsDir(), name)
+    if (name.startsWith('session-') && name.endsWith('.log') && !keep.has(file)) {
+      fs.rmSync(file, { force: true })
+    }
+  }
+}
+
+export type SessionLog = {
+  write: (entry: LogEntry) => void;
+  end: () => void;
+}
+
+// 수업 세션마다 파일을 따로 염 (여러 세션이 동시에 실행되면 파일명에 세션 ID를 붙임)
+// 파일을 쓰지 못하는 문제는 log로 알림 (이후 기록은 화면 로그에만 남음)
+export function createSessionLog(sessionId?: string, log: (line: string) => void = () => {}): SessionLog {
+  let stream: fs.WriteStream | null = null
+  const sessionName = sessionId ? `${timestamp()}-${sessionId}` : timestamp()
+  let part = 1
+  let bytes = 0
+
+  const openFile = () => {
+    const suffix = part > 1 ? `-part${part}` : ''
+    stream = fs.createWriteStream(path.join(logsDir(), `session-${sessionName}${suffix}.log`), { flags: 'a' })
+    stream.on('error', (err) => {
+      stream = null
+      log(`[session-log:err] Session log write failed: ${err.message}`)
+    })
+    bytes = 0
+  }
+
+  try {
+    fs.mkdirSync(logsDir(), { recursive: true })
+    openFile()
+    pruneOldFiles()
+  } catch (err: any) {
+    // 로그 파일을 못 만들어도 수업 실행은 계속
+    stream = null
+    log(`[session-log:err] Failed to start session log: ${err?.message || err}`)
+  }
+
+  return {
+    write(entry) {
+      if (!stream) return
+      const line = formatEntry(entry)
+      stream.write(line)
+      bytes += Buffer.byteLength(line)
+
+      if (bytes >= MAX_FILE_BYTES) {
+        stream.end()
+        part++
+        try {
+          openFile()
+          pruneOldFiles()
+        } catch (err: any) {
+          stream = null
+          log(`[session-log:err] Failed to rotate session log: ${err?.message || err}`)
+        }
+      }
+    },
+
+    end() {
+      stream?.end()
+      stream = null
+    }
+  }
+}
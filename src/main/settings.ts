@@ -0,0 +1,260 @@
+import { app } from 'electron'
+import * as fs from 'fs'
+import path from 'path'
+import type { EnvFileTemplate, EnvOverrides, LauncherSettings, ServerProfile } from '../shared/types'
+import { normalizeHostname } from './mdns'
+import { loadEnvOverrides, saveEnvOverrides } from './envTemplates'
+import { isSupportedRepoUrl } from './repoSync'
+import { validateProfile } from './serverProfiles'
+
+export const SETTINGS_VERSION = 1
+
+export const DEFAULT_SETTINGS: LauncherSettings = {
+  version: SETTINGS_VERSION,
+  workspaceDir: '',
+  repo: {
+    frontend: {
+      url: 'https://github.com/team-mozu/mozu-FE.git',
+      branch: 'main',
+      installCommand: 'yarn install',
+      startCommand: 'yarn dev:ip',
+      cwdName: 'frontend',
+      devUrl: 'http://localhost:3001'
+    }
+  },
+  frontendVersion: null,
+  serveMode: 'dev',
+  ports: {},
+  serverProfileId: 'staging',
+  serverProfiles: [],
+  networkInterface: '',
+  lanHostname: '',
+  accessControl: { allowedNetworks: [], requirePin: false },
+  https: false
+}
+
+function settingsPath(): string {
+  return path.join(app.getPath('userData'), 'settings.json')
+}
+
+// 설정 파일이 생기기 전 서버 프로필은 server-profiles.json에 따로 저장됐음
+function legacyProfilesPath(): string {
+  return path.join(app.getPath('userData'), 'server-profiles.json')
+}
+
+function invalid(field: string): never {
+  throw new Error(`설정 파일 형식이 올바르지 않습니다: ${field}`)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(obj: Record<string, any>, key: string, field: string) {
+  if (obj[key] !== undefined && typeof obj[key] !== 'string') invalid(`${field}.${key}`)
+}
+
+function optionalPort(obj: Record<string, any>, key: string, field: string) {
+  const value = obj[key]
+  if (value === undefined) return
+  if (!Number.isInteger(value) || value < 1 || value > 65535) invalid(`${field}.${key}`)
+}
+
+function validateRepo(repo: unknown): LauncherSettings['repo'] {
+  if (!isObject(repo)) invalid('repo')
+  if (!isObject(repo.frontend) || typeof repo.frontend.url !== 'string' || !isSupportedRepoUrl(repo.frontend.url)) invalid('repo.frontend.url')
+  for (const key of ['branch', 'ref', 'startCommand', 'installCommand', 'cwdName', 'devUrl', 'buildCommand']) {
+    optionalString(repo.frontend, key, 'repo.frontend')
+  }
+  if (repo.frontend.mode !== undefined && repo.frontend.mode !== 'dev' && repo.frontend.mode !== 'production') invalid('repo.frontend.mode')
+  if (repo.frontend.readyTimeoutMs !== undefined && !(typeof repo.frontend.readyTimeoutMs === 'number' && repo.frontend.readyTimeoutMs > 0)) {
+    invalid('repo.frontend.readyTimeoutMs')
+  }
+  if (repo.frontend.outputDirs !== undefined) {
+    if (!isObject(repo.frontend.outputDirs)) invalid('repo.frontend.outputDirs')
+    optionalString(repo.frontend.outputDirs, 'student', 'repo.frontend.outputDirs')
+    optionalString(repo.frontend.outputDirs, 'admin', 'repo.frontend.outputDirs')
+  }
+
+  if (repo.backend !== undefined) {
+    if (!isObject(repo.backend) || typeof repo.backend.url !== 'string' || !isSupportedRepoUrl(repo.backend.url)) invalid('repo.backend.url')
+    for (const key of ['branch', 'ref', 'startCommand', 'installCommand', 'cwdName', 'healthPath']) {
+      optionalString(repo.backend, key, 'repo.backend')
+    }
+    optionalPort(repo.backend, 'port', 'repo.backend')
+  }
+  const envFiles = repo.envFiles === undefined ? undefined : validateEnvFiles(repo.envFiles)
+  return { frontend: repo.frontend as LauncherSettings['repo']['frontend'], backend: repo.backend, ...(envFiles ? { envFiles } : {}) }
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every((v) => typeof v === 'string')
+}
+
+function validateEnvFiles(envFiles: unknown): EnvFileTemplate[] {
+  if (!Array.isArray(envFiles)) invalid('repo.envFiles')
+  return envFiles.map((file, index) => {
+    const field = `repo.envFiles[${index}]`
+    if (!isObject(file)) invalid(field)
+    // 프론트엔드 폴더 기준 상대 경로만 허용
+    if (typeof file.target !== 'string' || !file.target || path.isAbsolute(file.target) || file.target.split(/[\\/]/).includes('..')) {
+      invalid(`${field}.target`)
+    }
+    optionalString(file, 'comment', field)
+    if (file.requireDir !== undefined && typeof file.requireDir !== 'boolean') invalid(`${field}.requireDir`)
+    if (!isStringRecord(file.vars)) invalid(`${field}.vars`)
+    return { target: file.target, comment: file.comment, requireDir: file.requireDir, vars: file.vars }
+  })
+}
+
+// .env 수동 덮어쓰기 값 (파일 경로 -> KEY -> 값)
+function validateEnvOverrides(overrides: unknown): EnvOverrides {
+  if (!isObject(overrides) || !Object.values(overrides).every(isStringRecord)) invalid('envOverrides')
+  return overrides as EnvOverrides
+}
+
+function validateProfiles(profiles: unknown): ServerProfile[] {
+  if (!Array.isArray(profiles)) invalid('serverProfiles')
+  return profiles.map((profile, index) => {
+    const field = `serverProfiles[${index}]`
+    if (!isObject(profile)) invalid(field)
+    for (const key of ['id', 'name', 'serverUrl']) {
+      if (typeof profile[key] !== 'string' || !profile[key]) invalid(`${field}.${key}`)
+    }
+    for (const key of ['cookieDomain', 'adminCookieDomain', 'studentCookieDomain']) {
+      optionalString(profile, key, field)
+    }
+    // 화면에서 저장할 때와 같은 검사 (가져온 파일로 임의의 주소가 .env.local에 들어가지 않게 함)
+    try {
+      validateProfile(profile as ServerProfile)
+    } catch (err: any) {
+      invalid(`${field} - ${err.message}`)
+    }
+    return { ...profile, builtin: false } as ServerProfile
+  })
+}
+
+function validateAccessControl(accessControl: unknown): LauncherSettings['accessControl'] {
+  if (!isObject(accessControl)) invalid('accessControl')
+  const { allowedNetworks, requirePin } = accessControl
+  if (!Array.isArray(allowedNetworks) || allowedNetworks.some((entry) => typeof entry !== 'string' || !entry.trim())) {
+    invalid('accessControl.allowedNetworks')
+  }
+  if (typeof requirePin !== 'boolean') invalid('accessControl.requirePin')
+  return { allowedNetworks: allowedNetworks.map((entry: string) => entry.trim()), requirePin }
+}
+
+// 이전 버전 설정을 현재 형태로 올림 (새 버전 필드는 기본값으로 채움)
+function migrate(raw: Record<string, any>): Record<string, any> {
+  const version = raw.version ?? 0
+  if (typeof version !== 'number') invalid('version')
+  if (version > SETTINGS_VERSION) {
+    throw new Error(`더 새로운 버전의 런처에서 만든 설정 파일입니다 (version ${version}). 런처를 업데이트해주세요.`)
+  }
+  return { ...DEFAULT_SETTINGS, ...raw, version: SETTINGS_VERSION }
+}
+
+export function validateSettings(raw: unknown): LauncherSettings {
+  if (!isObject(raw)) invalid('(root)')
+  const settings = migrate(raw)
+
+  if (typeof settings.workspaceDir !== 'string') invalid('workspaceDir')
+  const repo = validateRepo(settings.repo)
+
+  const frontendVersion = settings.frontendVersion
+  if (frontendVersion !== null) {
+    if (!isObject(frontendVersion) || !['branch', 'tag', 'commit'].includes(frontendVersion.kind) || typeof frontendVersion.name !== 'string') {
+      invalid('frontendVersion')
+    }
+  }
+  if (settings.serveMode !== 'dev' && settings.serveMode !== 'production') invalid('serveMode')
+  if (!isObject(settings.ports)) invalid('ports')
+  optionalPort(settings.ports, 'student', 'ports')
+  optionalPort(settings.ports, 'admin', 'ports')
+  if (typeof settings.serverProfileId !== 'string' || !settings.serverProfileId) invalid('serverProfileId')
+  const serverProfiles = validateProfiles(settings.serverProfiles)
+  if (typeof settings.networkInterface !== 'string') invalid('networkInterface')
+  if (typeof settings.lanHostname !== 'string') invalid('lanHostname')
+  const lanHostname = settings.lanHostname.trim() === '' ? '' : normalizeHostname(settings.lanHostname)
+  if (lanHostname === null) invalid('lanHostname')
+  const accessControl = validateAccessControl(settings.accessControl)
+  if (typeof settings.https !== 'boolean') invalid('https')
+
+  return {
+    version: SETTINGS_VERSION,
+    workspaceDir: settings.workspaceDir,
+    repo,
+    frontendVersion,
+    serveMode: settings.serveMode,
+    ports: { student: settings.ports.student, admin: settings.ports.admin },
+    serverProfileId: settings.serverProfileId,
+    serverProfiles,
+    networkInterface: settings.networkInterface,
+    lanHostname,
+    accessControl,
+    https: settings.https
+  }
+}
+
+function readLegacySettings(): LauncherSettings {
+  try {
+    const legacy = JSON.parse(fs.readFileSync(legacyProfilesPath(), 'utf-8'))
+    return validateSettings({
+      ...(typeof legacy.selectedId === 'string' ? { serverProfileId: legacy.selectedId } : {}),
+      serverProfiles: Array.isArray(legacy.custom) ? legacy.custom : []
+    })
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+function writeSettings(settings: LauncherSettings) {
+  fs.mkdirSync(path.dirname(settingsPath()), { recursive: true })
+  fs.writeFileSync(settingsPath(), JSON.stringify(settings, null, 2), 'utf-8')
+}
+
+// 손상된 설정 파일은 항상 따로 보관하고 기본값으로 돌아감 (그 사실은 log로 남김)
+export function loadSettings(log: (line: string) => void = () => {}): LauncherSettings {
+  let raw: string
+  try {
+    raw = fs.readFileSync(settingsPath(), 'utf-8')
+  } catch {
+    return readLegacySettings()
+  }
+
+  try {
+    return validateSettings(JSON.parse(raw))
+  } catch (err: any) {
+    // 손상된 파일은 덮어쓰기 전에 따로 보관
+    log(`[settings:err] Invalid settings file, falling back to defaults: ${err?.message || err}`)
+    fs.renameSync(settingsPath(), settingsPath().replace(/\.json$/, `.invalid-${Date.now()}.json`))
+    return DEFAULT_SETTINGS
+  }
+}
+
+// 일부 항목만 바꿔 저장하고, 저장된 전체 설정을 반환
+export function saveSettings(patch: Partial<LauncherSettings>, log: (line: string) => void = () => {}): LauncherSettings {
+  const next = validateSettings({ ...loadSettings(log), ...patch, version: SETTINGS_VERSION })
+  writeSettings(next)
+  return next
+}
+
+// .env 덮어쓰기 값은 따로 저장하지만 다른 PC로 옮길 때 함께 필요하므로 같은 파일에 담음
+export function exportSettings(filePath: string, log: (line: string) => void = () => {}) {
+  fs.writeFileSync(filePath, JSON.stringify({ ...loadSettings(log), envOverrides: loadEnvOverrides() }, null, 2), 'utf-8')
+}
+
+// 가져온 파일은 검증을 통과해야만 현재 설정을 대체함
+export function importSettings(filePath: string): LauncherSettings {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch {
+    throw new Error('설정 파일을 읽을 수 없습니다. JSON 형식인지 확인해주세요.')
+  }
+  const settings = validateSettings(raw)
+  const envOverrides = isObject(raw) && raw.envOverrides !== undefined ? validateEnvOverrides(raw.envOverrides) : null
+  writeSettings(settings)
+  if (envOverrides) saveEnvOverrides(envOverrides)
+  return settings
+}
@@ -0,0 +1,114 @@
+import * as http from 'http'
+import * as fs from 'fs'
+import path from 'path'
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.txt': 'text/plain; charset=utf-8',
+  '.webmanifest': 'application/manifest+json'
+}
+
+// 빌드 결과물의 해시가 붙은 파일(assets/)은 오래 캐시, index.html은 항상 새로 받도록
+function cacheControl(relPath: string): string {
+  return relPath.startsWith('assets/') ? 'public, max-age=31536000, immutable' : 'no-cache'
+}
+
+function resolveFile(rootDir: string, urlPath: string): string | null {
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(urlPath.split('?')[0])
+  } catch {
+    return null
+  }
+
+  // 디렉토리 탈출 방지
+  const filePath = path.normalize(path.join(rootDir, decoded))
+  if (filePath !== rootDir && !filePath.startsWith(rootDir + path.sep)) return null
+
+  try {
+    const stat = fs.statSync(filePath)
+    if (stat.isFile()) return filePath
+    if (stat.isDirectory()) {
+      const index = path.join(filePath, 'index.html')
+      if (fs.existsSync(index)) return index
+    }
+  } catch {
+    // 없는 파일
+  }
+  return null
+}
+
+// 정적 빌드 결과물을 제공하는 간단한 서버 (SPA 라우트는 index.html로 대체)
+export function serveStatic(rootDir: string, port: number, host: string = '0.0.0.0'): Promise<http.Server> {
+  const root = path.resolve(rootDir)
+  const fallback = path.join(root, 'index.html')
+
+  if (!fs.existsSync(fallback)) {
+    return Promise.reject(new Error(`Build output not found: ${fallback}`))
+  }
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' })
+      res.end()
+      return
+    }
+
+    const urlPath = req.url || '/'
+    let filePath = resolveFile(root, urlPath)
+
+    // 확장자가 없는 경로는 클라이언트 라우트로 보고 index.html 반환
+    if (!filePath && !path.extname(urlPath.split('?')[0])) {
+      filePath = fallback
+    }
+    if (!filePath) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' })
+      res.end('Not Found')
+      return
+    }
+
+    const relPath = path.relative(root, filePath).split(path.sep).join('/')
+    res.writeHead(200, {
+      'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Cache-Control': cacheControl(relPath)
+    })
+    if (req.method === 'HEAD') {
+      res.end()
+      return
+    }
+    fs.createReadStream(filePath)
+      .on('error', () => res.destroy())
+      .pipe(res)
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => {
+      server.off('error', reject)
+      resolve(server)
+    })
+  })
+}
+
+export function closeServer(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve())
+    server.closeAllConnections()
+  })
+}
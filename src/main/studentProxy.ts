@@ -0,0 +1,168 @@
+import * as http from 'http'
+import * as https from 'https'
+import * as net from 'net'
+import type { ConnectedClient } from '../shared/types'
+import { closeServer } from './staticServer'
+import type { AccessGate } from './accessControl'
+
+// 학생 기기 목록을 렌더러로 보내는 최소 간격
+const DEFAULT_UPDATE_INTERVAL_MS = 2000
+// 이 시간 안에 요청이 있었거나 웹소켓이 열려 있으면 접속 중으로 봄 (접속한 기기 화면과 같은 기준)
+const ACTIVE_WITHIN_MS = 60000
+
+export type StudentProxyOptions = {
+  listenPort: number;           // 학생들이 접속하는 포트
+  targetPort: number;           // 127.0.0.1에서 실행 중인 실제 학생용 서버
+  host?: string;
+  ignore?: (ip: string) => boolean;   // 이 PC에서 보낸 요청(준비 확인 등)은 집계하지 않음
+  gate?: Pick<AccessGate, 'allowRequest' | 'allowUpgrade'>; // 통과한 요청만 전달하고 집계함
+  tls?: { key: string; cert: string };  // 있으면 HTTPS로 받아 HTTP로 전달
+  onUpdate?: (clients: ConnectedClient[]) => void;
+  updateIntervalMs?: number;
+  log?: (line: string) => void;
+}
+
+export type StudentProxy = {
+  server: http.Server;
+  clients: () => ConnectedClient[];
+  // HTTPS로 받는 경우 새 연결부터 이 인증서를 사용 (수업 중 IP가 바뀌어 인증서를 다시 발급한 경우)
+  setCertificate: (tls: { key: string; cert: string }) => void;
+  close: () => Promise<void>;
+}
+
+// 지금 접속 중인 기기 수 (한 번이라도 접속했던 기기 전체가 아님)
+export function activeClientCount(clients: ConnectedClient[], now = Date.now()): number {
+  return clients.filter((client) => client.openSockets > 0 || now - client.lastSeen < ACTIVE_WITHIN_MS).length
+}
+
+function clientIp(socket: net.Socket): string {
+  return (socket.remoteAddress || 'unknown').replace(/^::ffff:/, '')
+}
+
+// 업스트림이 아직 뜨지 않았거나 재시작 중일 때 학생 화면에 보여줄 안내
+function sendUnavailable(res: http.ServerResponse) {
+  if (res.headersSent) {
+    res.destroy()
+    return
+  }
+  res.writeHead(502, { 'Content-Type': 'text/html; charset=utf-8', 'Retry-After': '5' })
+  res.end('<!doctype html><meta charset="utf-8"><meta http-equiv="refresh" content="5"><p style="font-family:sans-serif;text-align:center;margin-top:20vh">수업 사이트를 준비하고 있습니다. 잠시 후 자동으로 다시 연결됩니다...</p>')
+}
+
+// 학생용 서버 앞의 HTTP/WebSocket 역방향 프록시 (vite HMR 웹소켓도 그대로 전달)
+// 접속한 기기별 요청 수와 마지막 접속 시각을 기록함
+export function createStudentProxy(options: StudentProxyOptions): Promise<StudentProxy> {
+  const host = options.host ?? '0.0.0.0'
+  const log = options.log ?? (() => {})
+  const clients = new Map<string, ConnectedClient>()
+  const sockets = new Set<net.Socket>()
+  let dirty = false
+
+  const snapshot = () => [...clients.values()]
+    .map((client) => ({ ...client }))
+    .sort((a, b) => a.ip.localeCompare(b.ip, undefined, { numeric: true }))
+
+  const touch = (ip: string, userAgent: string | undefined, openSocketDelta = 0) => {
+    if (options.ignore?.(ip)) return
+    const now = Date.now()
+    let client = clients.get(ip)
+    if (!client) {
+      client = { ip, requests: 0, firstSeen: now, lastSeen: now, openSockets: 0 }
+      clients.set(ip, client)
+      log(`[proxy] New device connected: ${ip}`)
+    }
+    if (openSocketDelta === 0) client.requests++
+    client.openSockets = Math.max(0, client.openSockets + openSocketDelta)
+    client.lastSeen = now
+    if (userAgent) client.userAgent = userAgent
+    dirty = true
+  }
+
+  const timer = setInterval(() => {
+    if (!dirty) return
+    dirty = false
+    options.onUpdate?.(snapshot())
+  }, options.updateIntervalMs ?? DEFAULT_UPDATE_INTERVAL_MS)
+
+  const forwardedHeaders = (req: http.IncomingMessage, ip: string): http.OutgoingHttpHeaders => {
+    const prior = req.headers['x-forwarded-for']
+    return {
+      ...req.headers,
+      'x-forwarded-for': prior ? `${prior}, ${ip}` : ip,
+      'x-forwarded-proto': options.tls ? 'https' : 'http'
+    }
+  }
+
+  const handler = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const ip = clientIp(req.socket)
+    if (options.gate && !options.gate.allowRequest(req, res, ip)) return
+    touch(ip, req.headers['user-agent'])
+
+    const upstream = http.request({
+      host: '127.0.0.1',
+      port: options.targetPort,
+      method: req.method,
+      path: req.url,
+      headers: forwardedHeaders(req, ip)
+    }, (upstreamRes) => {
+      res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers)
+      upstreamRes.pipe(res)
+    })
+    upstream.on('error', () => sendUnavailable(res))
+    req.pipe(upstream)
+  }
+  const server: http.Server = options.tls ? https.createServer(options.tls, handler) : http.createServer(handler)
+
+  server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    const ip = clientIp(socket)
+    if (options.gate && !options.gate.allowUpgrade(req, socket, ip)) return
+    const upstream = net.connect(options.targetPort, '127.0.0.1', () => {
+      const headers = forwardedHeaders(req, ip)
+      const lines = [`${req.method} ${req.url} HTTP/${req.httpVersion}`]
+      for (const [name, value] of Object.entries(headers)) {
+        if (value === undefined) continue
+        for (const v of Array.isArray(value) ? value : [value]) lines.push(`${name}: ${v}`)
+      }
+      upstream.write(lines.join('\r\n') + '\r\n\r\n')
+      if (head.length > 0) upstream.write(head)
+      upstream.pipe(socket)
+      socket.pipe(upstream)
+    })
+
+    touch(ip, req.headers['user-agent'], 1)
+    sockets.add(socket)
+    let closed = false
+    const cleanup = () => {
+      if (closed) return
+      closed = true
+      sockets.delete(socket)
+      touch(ip, undefined, -1)
+      upstream.destroy()
+      socket.destroy()
+    }
+    // 한쪽이 연결을 끊으면 반대쪽도 바로 정리 (반쯤 닫힌 연결이 접속 중으로 남지 않도록)
+    for (const side of [upstream, socket]) {
+      side.on('error', cleanup)
+      side.on('end', cleanup)
+      side.on('close', cleanup)
+    }
+  })
+
+  const setCertificate = (tls: { key: string; cert: string }) => {
+    if (server instanceof https.Server) server.setSecureContext(tls)
+  }
+
+  const close = (): Promise<void> => {
+    clearInterval(timer)
+    for (const socket of sockets) socket.destroy()
+    return closeServer(server)
+  }
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.listenPort, host, () => {
+      server.off('error', reject)
+      resolve({ server, clients: snapshot, setCertificate, close })
+    })
+  })
+}
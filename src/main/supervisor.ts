@@ -0,0 +1,140 @@
+import { spawn, type ChildProcess } from 'child_process'
+
+const KILL_TIMEOUT_MS = 5000
+const SIGKILL_DELAY_MS = 3000
+
+export type SupervisorOptions = {
+  start: () => ChildProcess;
+  maxRestarts: number;            // 연속 재시작 허용 횟수
+  baseDelayMs: number;            // 첫 재시작 대기 시간, 이후 2배씩 증가
+  maxDelayMs: number;
+  stableAfterMs: number;          // 이 시간 이상 살아 있으면 연속 실패 횟수 초기화
+  onSpawn?: (proc: ChildProcess, restarts: number) => void;
+  onCrash?: (code: number | null, signal: NodeJS.Signals | null) => void;
+  onRestartScheduled?: (attempt: number, delayMs: number) => void;
+  onGiveUp?: (code: number | null, signal: NodeJS.Signals | null) => void;
+  onCleanExit?: () => void;
+}
+
+export type Supervisor = {
+  current: () => ChildProcess | null;
+  restarts: () => number;         // 이번 실행 동안의 전체 재시작 횟수
+  alive: () => boolean;           // 실행 중이거나 재시작 대기 중이면 true
+  stop: () => Promise<void>;
+}
+
+// detached로 띄운 프로세스는 그룹 전체에 신호를 보내고, 아니면 해당 프로세스에만 보냄
+function signalTree(proc: ChildProcess, signal: NodeJS.Signals) {
+  try {
+    if (proc.pid) {
+      process.kill(-proc.pid, signal)
+      return
+    }
+  } catch {
+    // 프로세스 그룹이 없으면 아래에서 단일 프로세스 종료
+  }
+  proc.kill(signal)
+}
+
+// 자식 프로세스(트리)를 종료하고 끝날 때까지 대기
+export function killChild(proc: ChildProcess | null | undefined): Promise<void> {
+  if (!proc || proc.exitCode !== null || proc.signalCode !== null) return Promise.resolve()
+
+  return new Promise<void>((resolve) => {
+    const cleanup = () => {
+      resolve()
+    }
+
+    proc.once('exit', cleanup)
+    proc.once('close', cleanup)
+
+    const timeout = setTimeout(cleanup, KILL_TIMEOUT_MS)
+
+    try {
+      if (process.platform === 'win32') {
+        const killProc = spawn('taskkill.exe', ['/PID', String(proc.pid), '/T', '/F'], { stdio: 'ignore', shell: false })
+        killProc.on('exit', () => {
+          clearTimeout(timeout)
+          cleanup()
+        })
+      } else {
+        signalTree(proc, 'SIGTERM')
+        setTimeout(() => {
+          if (proc.exitCode === null && proc.signalCode === null) {
+            signalTree(proc, 'SIGKILL')
+          }
+        }, SIGKILL_DELAY_MS)
+      }
+    } catch (err) {
+      clearTimeout(timeout)
+      cleanup()
+    }
+  })
+}
+
+// 비정상 종료 시 지수 백오프로 재시작하는 감시자
+export function supervise(options: SupervisorOptions): Supervisor {
+  let proc: ChildProcess | null = null
+  let stopped = false
+  let gaveUp = false
+  let totalRestarts = 0
+  let consecutiveFailures = 0
+  let restartTimer: NodeJS.Timeout | null = null
+
+  const launch = () => {
+    const startedAt = Date.now()
+    const child = options.start()
+    proc = child
+    options.onSpawn?.(child, totalRestarts)
+
+    child.on('exit', (code, signal) => {
+      if (proc !== child) return
+      proc = null
+      if (stopped) return
+
+      if (code === 0) {
+        options.onCleanExit?.()
+        return
+      }
+
+      options.onCrash?.(code, signal)
+
+      if (Date.now() - startedAt >= options.stableAfterMs) {
+        consecutiveFailures = 0
+      }
+      if (consecutiveFailures >= options.maxRestarts) {
+        gaveUp = true
+        options.onGiveUp?.(code, signal)
+        return
+      }
+
+      const delay = Math.min(options.baseDelayMs * 2 ** consecutiveFailures, options.maxDelayMs)
+      consecutiveFailures++
+      options.onRestartScheduled?.(consecutiveFailures, delay)
+      restartTimer = setTimeout(() => {
+        restartTimer = null
+        if (stopped) return
+        totalRestarts++
+        launch()
+      }, delay)
+    })
+  }
+
+  launch()
+
+  return {
+    current: () => proc,
+    restarts: () => totalRestarts,
+    alive: () => !stopped && !gaveUp && (proc !== null || restartTimer !== null),
+    stop: async () => {
+      stopped = true
+      if (restartTimer) {
+        clearTimeout(restartTimer)
+        restartTimer = null
+      }
+      const child = proc
+      proc = null
+      await killChild(child)
+    }
+  }
+}
@@ -1,10 +1,16 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './ui/App'
+import ProjectorView from './ui/ProjectorView'
 import './ui/index.css'
 
+// 프로젝터 창은 같은 페이지를 #projector/<세션 ID> 해시로 엶
+const projectorMatch = /^#projector(?:\/(.+))?$/.exec(window.location.hash)
+// 다른 세션의 안내로 바꾸면 해시만 달라지므로 새로 그림
+if (projectorMatch) window.addEventListener('hashchange', () => window.location.reload())
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {projectorMatch ? <ProjectorView sessionId={decodeURIComponent(projectorMatch[1] ?? 'main')} /> : <App />}
   </React.StrictMode>
 )
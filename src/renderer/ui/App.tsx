@@ -1,123 +1,155 @@
 import { useEffect, useState } from 'react'
 import { Button } from './components/Button'
 import { LogPanel } from './components/LogPanel'
+import { ConnectedDevicesPanel } from './components/ConnectedDevicesPanel'
+import { VersionPicker } from './components/VersionPicker'
+import { EnvPreview } from './components/EnvPreview'
+import { ServerProfilePicker } from './components/ServerProfilePicker'
+import { ErrorPanel } from './components/ErrorPanel'
+import { PreflightPanel } from './components/PreflightPanel'
+import { HostsEntryControl } from './components/HostsEntryControl'
+import { NetworkInterfacePicker } from './components/NetworkInterfacePicker'
+import { LanHostnameField } from './components/LanHostnameField'
+import { AccessControlSettings } from './components/AccessControlSettings'
+import { LessonPinControl } from './components/LessonPinControl'
+import { SessionTabs } from './components/SessionTabs'
+import { LessonHistory } from './components/LessonHistory'
+import defaultErrorCatalog from './errorCatalog.json'
 import logo from '../assets/logo.svg'
 
 type RepoCfg = import('@shared/types').RepoConfig
 type LaunchStatus = import('@shared/types').LaunchStatus
+type SessionStatuses = import('@shared/types').SessionStatuses
+type SessionStatusUpdate = import('@shared/types').SessionStatusUpdate
+type SessionClientsUpdate = import('@shared/types').SessionClientsUpdate
+type PortMap = import('@shared/types').PortMap
+type EnvOverrides = import('@shared/types').EnvOverrides
+type RenderedEnvFile = import('@shared/types').RenderedEnvFile
+type ServerProfile = import('@shared/types').ServerProfile
+type LauncherSettings = import('@shared/types').LauncherSettings
+type VersionSelection = import('@shared/types').VersionSelection
+type LogEntry = import('@shared/types').LogEntry
+type LogBatch = import('@shared/types').LogBatch
+type LaunchError = import('@shared/types').LaunchError
+type ErrorCode = import('@shared/types').ErrorCode
+type ErrorCatalog = import('@shared/types').ErrorCatalog
+type PreflightReport = import('@shared/types').PreflightReport
+type HostsStatus = import('@shared/types').HostsStatus
+type NetworkInterfaceInfo = import('@shared/types').NetworkInterfaceInfo
+type ConnectedClient = import('@shared/types').ConnectedClient
+type LessonRecord = import('@shared/types').LessonRecord
 
 declare global {
   interface Window {
     api: {
       chooseDir: () => Promise<string | null>
-      startMock: (cfg: RepoCfg) => Promise<{ ok: boolean, error?: string }>
-      startLesson: (cfg: RepoCfg) => Promise<{ ok: boolean, error?: string }>
-      stopMock: () => Promise<{ ok: boolean }>
+      startMock: (cfg: RepoCfg, sessionId: string) => Promise<{ ok: boolean, error?: string, failure?: LaunchError, cancelled?: boolean }>
+      startLesson: (cfg: RepoCfg, sessionId: string) => Promise<{ ok: boolean, error?: string, failure?: LaunchError, cancelled?: boolean }>
+      stopMock: (sessionId: string) => Promise<{ ok: boolean }>
+      getStatus: () => Promise<SessionStatuses>
+      openProjector: (sessionId: string) => Promise<{ ok: boolean }>
       openExternal: (url: string) => Promise<void>
       getLocalIP: () => Promise<string>
-      onStatusUpdate: (cb: (status: LaunchStatus) => void) => () => void
+      listNetworkInterfaces: () => Promise<NetworkInterfaceInfo[]>
+      listRemoteRefs: (repoUrl: string) => Promise<{ branches: string[]; tags: string[] }>
+      getLastGoodRevision: (repoUrl: string) => Promise<string | null>
+      previewEnvFiles: (cfg: RepoCfg, sessionId?: string) => Promise<RenderedEnvFile[]>
+      getEnvOverrides: () => Promise<EnvOverrides>
+      setEnvOverrides: (overrides: EnvOverrides) => Promise<{ ok: boolean }>
+      listServerProfiles: () => Promise<{ profiles: ServerProfile[]; selectedId: string }>
+      saveServerProfile: (profile: ServerProfile) => Promise<{ ok: boolean; profile?: ServerProfile; error?: string }>
+      deleteServerProfile: (id: string) => Promise<{ ok: boolean }>
+      selectServerProfile: (id: string) => Promise<{ ok: boolean }>
+      checkServerProfile: (profile: ServerProfile) => Promise<boolean>
+      getSettings: () => Promise<LauncherSettings>
+      saveSettings: (patch: Partial<LauncherSettings>) => Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }>
+      exportSettings: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      importSettings: () => Promise<{ ok: boolean; settings?: LauncherSettings; error?: string }>
+      getLogHistory: (sessionId?: string) => Promise<LogEntry[]>
+      exportDiagnostics: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      getErrorCatalog: () => Promise<ErrorCatalog>
+      runPreflight: (cfg: RepoCfg) => Promise<PreflightReport>
+      getHostsStatus: () => Promise<HostsStatus>
+      installHostsEntry: () => Promise<{ ok: boolean; status?: HostsStatus; error?: string }>
+      removeHostsEntry: () => Promise<{ ok: boolean; status?: HostsStatus; error?: string }>
+      getClients: (sessionId: string) => Promise<ConnectedClient[]>
+      setLessonPin: (sessionId: string, pin: string) => Promise<{ ok: boolean; error?: string }>
+      exportCaCertificate: () => Promise<{ ok: boolean; path?: string; error?: string }>
+      getLessonHistory: () => Promise<LessonRecord[]>
+      exportLessonHistory: (failuresOnly: boolean) => Promise<{ ok: boolean; path?: string; error?: string }>
+      onStatusUpdate: (cb: (update: SessionStatusUpdate) => void) => () => void
+      onLogEntries: (cb: (batch: LogBatch) => void) => () => void
+      onClientsUpdate: (cb: (update: SessionClientsUpdate) => void) => () => void
     }
   }
 }
 
-// 하드코딩된 설정 (필요시 여기만 수정)
-const FIXED_CFG: RepoCfg = {
-  frontend: {
-    url: 'https://github.com/team-mozu/mozu-FE.git',
-    branch: 'main',
-    installCommand: 'yarn install',
-    startCommand: 'yarn dev:ip',
-    cwdName: 'frontend',
-    devUrl: 'http://localhost:3001',
-  }
+// 선택한 버전을 RepoConfig의 branch/ref로 변환 (선택 없으면 설정된 브랜치 최신)
+function versionToRepoFields(frontend: RepoCfg['frontend'], version: VersionSelection | null): Pick<RepoCfg['frontend'], 'branch' | 'ref'> {
+  if (!version) return { branch: frontend.branch, ref: undefined }
+  if (version.kind === 'branch') return { branch: version.name, ref: undefined }
+  return { branch: frontend.branch, ref: version.name }
 }
 
-function getErrorSolution(error: string): { title: string; message: string; solutions: string[]; links?: { text: string; url: string }[] } {
-  // Git 관련 오류
-  if (error.includes('git') || error.includes('설치되지 않았거나') || error.includes('Git이 설치되지 않았습니다')) {
-    return {
-      title: '필요한 프로그램이 없습니다',
-      message: '모의주식 사이트를 실행하기 위한 Git 프로그램이 설치되어 있지 않습니다. 파일을 다운로드하기 위해 필요합니다.',
-      solutions: [
-        '1. 아래 링크에서 Git 프로그램을 다운로드하여 설치해주세요',
-        '2. 설치 후 반드시 컴퓨터를 재시작해주세요',
-        '3. 재시작 후 다시 수업 시작을 눌러주세요'
-      ],
-      links: [
-        { text: 'Git 다운로드 (Windows/Mac)', url: 'https://git-scm.com' }
-      ]
-    }
+// 설정 파일 도입 전 localStorage에 저장하던 값 (한 번만 설정 파일로 옮김)
+const LEGACY_STORAGE_KEYS = ['mozu-workspace-dir', 'mozu-serve-mode', 'mozu-frontend-version']
+
+function takeLegacySettings(): Partial<LauncherSettings> | null {
+  if (!LEGACY_STORAGE_KEYS.some((key) => localStorage.getItem(key) !== null)) return null
+
+  const patch: Partial<LauncherSettings> = {}
+  const legacyDir = localStorage.getItem('mozu-workspace-dir')
+  if (legacyDir) patch.workspaceDir = legacyDir
+  if (localStorage.getItem('mozu-serve-mode') === 'production') patch.serveMode = 'production'
+  try {
+    const legacyVersion = JSON.parse(localStorage.getItem('mozu-frontend-version') || 'null')
+    if (legacyVersion) patch.frontendVersion = legacyVersion
+  } catch {
+    // 깨진 값은 버림
   }
+  LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key))
+  return patch
+}
 
-  // Node.js/npm/yarn 관련 오류
-  if (error.includes('yarn') || error.includes('npm') || error.includes('Node.js를 설치하세요')) {
-    return {
-      title: 'Node.js가 설치되지 않았습니다',
-      message: '모의주식 사이트를 실행하기 위한 Node.js가 설치되어 있지 않습니다. 웹사이트 실행에 필요한 프로그램입니다.',
-      solutions: [
-        '1. 아래 링크에서 Node.js LTS 버전을 다운로드하여 설치해주세요',
-        '2. 설치 시 모든 옵션을 기본값으로 두고 설치하세요',
-        '3. 설치 후 반드시 컴퓨터를 재시작해주세요',
-        '4. 재시작 후 다시 수업 시작을 눌러주세요'
-      ],
-      links: [
-        { text: 'Node.js 다운로드 (LTS 버전)', url: 'https://nodejs.org' }
-      ]
-    }
-  }
+// 코드 없이 온 실패 (이전 버전 메인 프로세스, 렌더러 측 검증 등)
+function localError(code: ErrorCode, message = ''): LaunchError {
+  return { code, message, step: 'idle', logExcerpt: [] }
+}
 
-  // 의존성 설치 관련 오류
-  if (error.includes('install') || error.includes('의존성') || error.includes('failed') || error.includes('ENOTFOUND')) {
-    return {
-      title: '인터넷 연결 또는 설치 오류',
-      message: '필요한 파일들을 다운로드하는 중 문제가 발생했습니다.',
-      solutions: [
-        '1. 인터넷 연결 상태를 확인해주세요 (WiFi 또는 유선 연결)',
-        '2. 방화벽이나 보안 프로그램이 차단하고 있지 않은지 확인해주세요',
-        '3. 5분 후 다시 시도해주세요',
-        '4. 문제가 계속되면 다른 네트워크에서 시도해보세요'
-      ]
-    }
-  }
+// 윈도우 경로 검증 (콜론은 드라이브 문자 다음에만 허용, 260자 제한)
+function validateWorkspaceDir(dir: string): ErrorCode | null {
+  if (!dir.trim()) return null
+  const hasInvalidChars = /[<>"|?*]/.test(dir)
+  const hasInvalidColon = dir.includes(':') && !(/^[A-Za-z]:\\/.test(dir) || dir.match(/^[A-Za-z]:[^:]*$/))
+  if (hasInvalidChars || hasInvalidColon) return 'INVALID_WORKSPACE_PATH'
+  if (dir.length > 260) return 'WORKSPACE_PATH_TOO_LONG'
+  return null
+}
 
-  // 권한 관련 오류
-  if (error.includes('permission') || error.includes('권한') || error.includes('EACCES') || error.includes('access')) {
-    return {
-      title: '폴더 접근 권한 문제',
-      message: '선택하신 폴더에 파일을 생성할 권한이 없습니다.',
-      solutions: [
-        '1. 다른 폴더를 선택해주세요 (바탕화면, 문서 폴더 등)',
-        '2. 시스템 폴더(Program Files, Windows 등)는 선택하지 마세요',
-        '3. 관리자 권한으로 프로그램을 실행해보세요',
-        '4. 사용자 폴더 내의 일반적인 위치를 선택해주세요'
-      ]
-    }
-  }
+// 메인 프로세스의 로그 버퍼와 같은 크기로 유지
+const MAX_LOG_ENTRIES = 5000
 
-  // 포트 관련 오류  
-  if (error.includes('port') || error.includes('EADDRINUSE') || error.includes('already in use')) {
-    return {
-      title: '다른 프로그램이 실행 중입니다',
-      message: '모의주식 사이트가 사용하는 포트를 다른 프로그램이 사용하고 있습니다.',
-      solutions: [
-        '1. 다른 웹 서버나 개발 프로그램을 종료해주세요',
-        '2. 웹 브라우저를 모두 닫고 다시 시도해주세요',
-        '3. 컴퓨터를 재시작 후 다시 시도해주세요',
-        '4. 실행 중인 다른 프로그램들을 확인하고 종료해주세요'
-      ]
-    }
-  }
+// seq 순서로 합치고 중복 제거 (기록 조회와 실시간 전송이 겹칠 수 있음)
+function mergeLogs(current: LogEntry[], incoming: LogEntry[]): LogEntry[] {
+  const lastSeq = current.length > 0 ? current[current.length - 1].seq : -1
+  const merged = incoming.every((e) => e.seq > lastSeq)
+    ? [...current, ...incoming]
+    : [...new Map([...current, ...incoming].map((e) => [e.seq, e])).values()].sort((a, b) => a.seq - b.seq)
+  return merged.length > MAX_LOG_ENTRIES ? merged.slice(-MAX_LOG_ENTRIES) : merged
+}
 
-  return {
-    title: '실행 중 예상치 못한 오류가 발생했습니다',
-    message: '모의주식 사이트 실행 과정에서 알 수 없는 문제가 발생했습니다.',
-    solutions: [
-      '1. 프로그램을 완전히 종료하고 다시 실행해주세요',
-      '2. 다른 실행 중인 프로그램들을 모두 종료해주세요',
-      '3. 컴퓨터를 재시작 후 다시 시도해주세요',
-      '4. 문제가 지속되면 IT 담당자에게 문의해주세요'
-    ]
-  }
+// 기존 작업 폴더를 그대로 쓰는 첫 번째 세션 (메인 프로세스와 같은 ID)
+const DEFAULT_SESSION_ID = 'main'
+
+// 새 탭은 비어 있는 가장 작은 번호를 ID로 씀 (작업 폴더 sessions/<ID>)
+function nextSessionId(ids: string[]): string {
+  let n = 2
+  while (ids.includes(String(n))) n++
+  return String(n)
+}
+
+function sessionLabel(id: string): string {
+  return id === DEFAULT_SESSION_ID ? '수업 1' : `수업 ${id}`
 }
 
 const PROGRESS_STEPS = [
@@ -126,164 +158,340 @@ const PROGRESS_STEPS = [
   { key: 'preparing', name: '준비 중', icon: '📁' },
   { key: 'cloning', name: '파일 다운로드', icon: '⬇️' },
   { key: 'installing', name: '설치 중', icon: '⚙️' },
+  { key: 'building', name: '빌드 중', icon: '🔨' },
   { key: 'starting', name: '시작 중', icon: '🚀' },
   { key: 'running', name: '수업 진행 중', icon: '✅' },
   { key: 'error', name: '문제 발생', icon: '❌' }
 ]
 
+const STEP_NAMES: Record<string, string> = Object.fromEntries(PROGRESS_STEPS.map((step) => [step.key, step.name]))
+
 export default function App() {
-  const [logs, setLogs] = useState<string[]>([])
-  const [dir, setDir] = useState<string>(() => {
-    // 초기값으로 localStorage에서 이전에 선택한 폴더 불러오기
-    return localStorage.getItem('mozu-workspace-dir') || ''
-  })
-  const [isRunning, setIsRunning] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [currentStep, setCurrentStep] = useState<string>('idle')
-  const [clientStatus, setClientStatus] = useState<{ step: string; message?: string }>({ step: 'idle' })
+  // 탭으로 열어 둔 수업 세션 (첫 번째 세션은 항상 있음)
+  const [sessionIds, setSessionIds] = useState<string[]>([DEFAULT_SESSION_ID])
+  const [activeSession, setActiveSession] = useState(DEFAULT_SESSION_ID)
+  // 수업 화면과 지난 수업 기록 화면 전환 (수업은 화면과 관계없이 계속 실행됨)
+  const [view, setView] = useState<'lessons' | 'history'>('lessons')
+  // 메인 프로세스가 세션별로 알려주는 상태 (실행 중이 아닌 세션은 없음)
+  const [statuses, setStatuses] = useState<SessionStatuses>({})
+  // 세션 ID별 로그 ('' = 특정 세션에 속하지 않는 런처 로그)
+  const [logs, setLogs] = useState<Record<string, LogEntry[]>>({})
+  // 학생 프록시를 거쳐 접속한 기기 목록 (세션별)
+  const [clients, setClients] = useState<Record<string, ConnectedClient[]>>({})
+  // 아래 설정값은 메인 프로세스의 설정 파일에서 불러옴 (불러오기 전에는 repo가 null)
+  const [repo, setRepo] = useState<LauncherSettings['repo'] | null>(null)
+  const [preferredPorts, setPreferredPorts] = useState<LauncherSettings['ports']>({})
+  const [dir, setDir] = useState<string>('')
+  // 'production'이면 빌드 후 가벼운 정적 서버로 제공 (학생 수가 많은 교실용)
+  const [serveMode, setServeMode] = useState<'dev' | 'production'>('dev')
+  const [version, setVersion] = useState<VersionSelection | null>(null)
+  const [serverProfileId, setServerProfileId] = useState('staging')
+  const [networkInterface, setNetworkInterface] = useState('')
+  const [lanHostname, setLanHostname] = useState('')
+  const [useHttps, setUseHttps] = useState(false)
+  const [caMessage, setCaMessage] = useState<string | null>(null)
+  const [accessControl, setAccessControl] = useState<LauncherSettings['accessControl']>({ allowedNetworks: [], requirePin: false })
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null)
+  const [exportingDiagnostics, setExportingDiagnostics] = useState(false)
+  const [diagnosticsMessage, setDiagnosticsMessage] = useState<string | null>(null)
+  // 설정을 가져오면 서버 프로필 목록을 다시 불러오도록 증가
+  const [importCount, setImportCount] = useState(0)
+  // 이전 수업에서 정상 실행된 버전 (실행 중인 세션이 더 최신 값을 알려주면 그쪽을 씀)
+  const [lastGood, setLastGood] = useState<string | undefined>(undefined)
+  // 설치가 깨졌을 때만 쓰는 1회성 옵션 (저장하지 않음)
+  const [cleanInstall, setCleanInstall] = useState(false)
+  // 시작 요청을 보냈지만 아직 끝나지 않은 세션
+  const [launching, setLaunching] = useState<string[]>([])
+  const [errors, setErrors] = useState<Record<string, LaunchError | null>>({})
+  // 기본 안내 문구 위에 userData/error-catalog.json의 수정본을 덮어씀
+  const [errorCatalog, setErrorCatalog] = useState<ErrorCatalog>(defaultErrorCatalog as ErrorCatalog)
+  // 이 PC의 현재 주소 (실행 중인 세션은 실행할 때의 주소를 따로 가짐)
   const [localIP, setLocalIP] = useState<string>('localhost')
 
+  const setSessionError = (sessionId: string, error: LaunchError | null) => {
+    setErrors((prev) => ({ ...prev, [sessionId]: error }))
+  }
+
+  const addSessionTab = (sessionId: string) => {
+    setSessionIds((prev) => prev.includes(sessionId) ? prev : [...prev, sessionId])
+  }
+
   useEffect(() => {
-    const off = window.api.onStatusUpdate((s) => {
-      setLogs(s.logs || [])
-      setCurrentStep(s.step)
-      setIsRunning(s.step === 'running')
-
-      // 클라이언트 개별 상태 업데이트
-      if (s.client) {
-        setClientStatus(s.client)
-      }
+    const offLogs = window.api.onLogEntries((batch) => {
+      setLogs((prev) => ({ ...prev, [batch.sessionId]: mergeLogs(batch.reset ? [] : prev[batch.sessionId] ?? [], batch.entries) }))
+    })
+    window.api.getLogHistory()
+      .then((history) => setLogs((prev) => ({ ...prev, '': mergeLogs(prev[''] ?? [], history) })))
+      .catch(() => {})
+
+    const offClients = window.api.onClientsUpdate((update) => {
+      setClients((prev) => ({ ...prev, [update.sessionId]: update.clients }))
+    })
 
+    // 창을 다시 열었을 때 이미 실행 중인 세션을 탭으로 복원
+    window.api.getStatus()
+      .then((current) => {
+        setStatuses((prev) => ({ ...current, ...prev }))
+        Object.keys(current).forEach(addSessionTab)
+      })
+      .catch(() => {})
+
+    const off = window.api.onStatusUpdate(({ sessionId, status: s }) => {
+      setStatuses((prev) => ({ ...prev, [sessionId]: s }))
+      addSessionTab(sessionId)
       if (s.step === 'error') {
-        setError(s.message || '알 수 없는 오류가 발생했습니다.')
-        setIsRunning(false)
+        setSessionError(sessionId, s.error ?? localError('UNKNOWN', s.message || '알 수 없는 오류가 발생했습니다.'))
       }
     })
 
+    window.api.getErrorCatalog()
+      .then((overrides) => setErrorCatalog({ ...(defaultErrorCatalog as ErrorCatalog), ...overrides }))
+      .catch(() => {})
+
+    loadSettings()
+      .then((settings) => window.api.getLastGoodRevision(settings.repo.frontend.url))
+      // 이전 수업에서 정상 실행된 버전 (롤백 후보)
+      .then((sha) => sha && setLastGood(sha))
+      .catch(() => {})
+
     // IP 주소 가져오기
     window.api.getLocalIP().then(setLocalIP).catch(() => setLocalIP('localhost'))
 
-    return () => off()
+    return () => {
+      off()
+      offLogs()
+      offClients()
+    }
   }, [])
 
+  // 탭을 바꾸면 그 세션의 지난 로그와 접속 기기를 불러옴
+  useEffect(() => {
+    window.api.getLogHistory(activeSession)
+      .then((history) => setLogs((prev) => ({ ...prev, [activeSession]: mergeLogs(prev[activeSession] ?? [], history) })))
+      .catch(() => {})
+    window.api.getClients(activeSession)
+      .then((list) => setClients((prev) => ({ ...prev, [activeSession]: list })))
+      .catch(() => {})
+  }, [activeSession])
+
+  // 지금 보고 있는 탭의 상태
+  const status: LaunchStatus = statuses[activeSession] ?? { step: 'idle' }
+  const currentStep = status.step
+  const isRunning = launching.includes(activeSession) || (currentStep !== 'idle' && currentStep !== 'error')
+  const error = errors[activeSession] ?? null
+  const clientStatus = status.client ?? { step: 'idle' }
+  // 로컬 백엔드를 함께 띄우는 경우에만 서버 상태가 내려옴
+  const serverStatus = status.server ?? null
+  // 메인 프로세스가 실제로 배정한 포트 (충돌하거나 다른 세션이 쓰고 있으면 3001/3002가 아닐 수 있음)
+  const ports: PortMap = status.ports ?? { student: 3001, admin: 3002 }
+  const revision = { current: status.revision?.current, lastGood: status.revision?.lastGood ?? lastGood }
+  // 수업 시작 시 점검한 결과 (미리 점검한 결과는 PreflightPanel이 직접 불러옴)
+  const launchPreflight = status.preflight ?? null
+  // 수업 중 주소가 바뀌면 메인 프로세스가 알려줌 (학생들이 접속하지 못할 수 있음)
+  const ipChange = status.ipChange ?? null
+  // 실제로 광고 중인 .local 이름 (광고에 실패하면 비어 있음)
+  const advertisedHostname = status.lanHostname ?? null
+  const lessonPin = status.lessonPin ?? ''
+  // 이번 실행이 HTTPS로 제공되는지 (설정이 아니라 실제 실행 기준)
+  const scheme = status.https ? 'https' : 'http'
+  const studentIP = status.localIP ?? localIP
+  const logEntries = mergeLogs(logs[''] ?? [], logs[activeSession] ?? [])
+
+  const applySettings = (settings: LauncherSettings) => {
+    setRepo(settings.repo)
+    setPreferredPorts(settings.ports)
+    setDir(settings.workspaceDir)
+    setServeMode(settings.serveMode)
+    setVersion(settings.frontendVersion)
+    setServerProfileId(settings.serverProfileId)
+    setNetworkInterface(settings.networkInterface)
+    setLanHostname(settings.lanHostname)
+    setAccessControl(settings.accessControl)
+    setUseHttps(settings.https)
+  }
+
+  const loadSettings = async (): Promise<LauncherSettings> => {
+    let settings = await window.api.getSettings()
+    const legacy = takeLegacySettings()
+    if (legacy) {
+      const res = await window.api.saveSettings(legacy)
+      if (res.settings) settings = res.settings
+    }
+    applySettings(settings)
+    return settings
+  }
+
+  const saveSettings = (patch: Partial<LauncherSettings>) => {
+    window.api.saveSettings(patch).catch(() => {})
+  }
+
+  const handleExportSettings = async () => {
+    const res = await window.api.exportSettings()
+    if (res.ok) setSettingsMessage(`설정을 저장했습니다: ${res.path}`)
+    else if (res.error) setSettingsMessage(`설정을 내보내지 못했습니다: ${res.error}`)
+  }
+
+  const handleImportSettings = async () => {
+    const res = await window.api.importSettings()
+    if (res.ok && res.settings) {
+      applySettings(res.settings)
+      setImportCount((n) => n + 1)
+      setSettingsMessage('설정을 가져왔습니다.')
+    } else if (res.error) {
+      setSettingsMessage(`설정을 가져오지 못했습니다: ${res.error}`)
+    }
+  }
+
+  const handleExportDiagnostics = async () => {
+    setExportingDiagnostics(true)
+    try {
+      const res = await window.api.exportDiagnostics()
+      if (res.ok) setDiagnosticsMessage(`진단 정보를 저장했습니다: ${res.path}`)
+      else if (res.error) setDiagnosticsMessage(`진단 정보를 저장하지 못했습니다: ${res.error}`)
+    } finally {
+      setExportingDiagnostics(false)
+    }
+  }
+
   const handleChooseDir = async () => {
     const picked = await window.api.chooseDir()
     if (picked) {
       setDir(picked)
-      // 선택된 폴더를 localStorage에 저장하여 다음에 기본값으로 사용
-      localStorage.setItem('mozu-workspace-dir', picked)
+      // 선택된 폴더를 저장하여 다음에 기본값으로 사용
+      saveSettings({ workspaceDir: picked })
     }
     // 사용자가 취소한 경우(picked === null)는 아무 처리하지 않음
   }
 
-  const start = async () => {
-    // 입력 검증 강화
-    if (dir && dir.trim()) {
-      // 윈도우 경로 검증 (콜론은 드라이브 문자 다음에만 허용)
-      const invalidChars = /[<>"|?*]/
-      const hasInvalidChars = invalidChars.test(dir)
-      const hasInvalidColon = dir.includes(':') && !(/^[A-Za-z]:\\/.test(dir) || dir.match(/^[A-Za-z]:[^:]*$/))
-
-      if (hasInvalidChars || hasInvalidColon) {
-        setError(JSON.stringify({
-          title: '잘못된 폴더 경로',
-          message: '폴더 경로에 사용할 수 없는 문자가 포함되어 있습니다.',
-          solutions: [
-            '1. 다른 폴더를 선택해주세요',
-            '2. 폴더명에 특수문자(<, >, ", |, ?, *)가 없는 폴더를 선택해주세요',
-            '3. 바탕화면이나 문서 폴더 같은 일반적인 위치를 선택해주세요'
-          ]
-        }))
-        return
-      }
+  const handleChangeVersion = (next: VersionSelection | null) => {
+    setVersion(next)
+    saveSettings({ frontendVersion: next })
+  }
 
-      // 길이 검증 (Windows 경로 제한)
-      if (dir.length > 260) {
-        setError(JSON.stringify({
-          title: '폴더 경로가 너무 깁니다',
-          message: '선택하신 폴더 경로가 너무 깁니다.',
-          solutions: [
-            '1. 더 짧은 경로의 폴더를 선택해주세요',
-            '2. 바탕화면이나 문서 폴더처럼 경로가 짧은 곳을 선택해주세요'
-          ]
-        }))
-        return
-      }
-    }
+  const handleChangeServerProfile = (id: string) => {
+    setServerProfileId(id)
+    window.api.selectServerProfile(id).catch(() => {})
+  }
 
-    setError(null)
-    setIsRunning(true)
+  const handleChangeNetworkInterface = async (name: string) => {
+    setNetworkInterface(name)
+    await window.api.saveSettings({ networkInterface: name }).catch(() => {})
+    window.api.getLocalIP().then(setLocalIP).catch(() => {})
+  }
 
-    const payload: RepoCfg = {
-      ...FIXED_CFG,
-      workspaceDir: dir && dir.trim() ? dir.trim() : undefined,
-    }
+  const handleSaveLanHostname = async (name: string) => {
+    const res = await window.api.saveSettings({ lanHostname: name })
+    if (res.ok) setLanHostname(name)
+    return res
+  }
+
+  const handleChangeAccessControl = (next: LauncherSettings['accessControl']) => {
+    setAccessControl(next)
+    saveSettings({ accessControl: next })
+  }
 
-    const res = await window.api.startMock(payload)
-    if (!res.ok) {
-      const errorInfo = getErrorSolution(res.error || '')
-      setError(JSON.stringify(errorInfo))
-      setIsRunning(false)
+  const handleToggleHttps = (checked: boolean) => {
+    setUseHttps(checked)
+    saveSettings({ https: checked })
+  }
+
+  const handleExportCaCertificate = async () => {
+    const res = await window.api.exportCaCertificate()
+    if (res.ok) setCaMessage(`인증서를 저장했습니다: ${res.path}`)
+    else if (res.error) setCaMessage(`인증서를 저장하지 못했습니다: ${res.error}`)
+  }
+
+  const handleToggleServeMode = (checked: boolean) => {
+    const mode = checked ? 'production' : 'dev'
+    setServeMode(mode)
+    saveSettings({ serveMode: mode })
+  }
+
+  // 저장된 설정과 이번 실행에서 고른 버전으로 실행 설정을 만듦
+  const buildConfig = (selection: VersionSelection | null): RepoCfg | null => {
+    if (!repo) return null
+    return {
+      ...repo,
+      frontend: { ...repo.frontend, ...versionToRepoFields(repo.frontend, selection), mode: serveMode },
+      ports: preferredPorts,
+      serverProfileId
     }
   }
 
-  const startLesson = async () => {
-    // 입력 검증 강화
-    if (dir && dir.trim()) {
-      // 윈도우 경로 검증 (콜론은 드라이브 문자 다음에만 허용)
-      const invalidChars = /[<>"|?*]/
-      const hasInvalidChars = invalidChars.test(dir)
-      const hasInvalidColon = dir.includes(':') && !(/^[A-Za-z]:\\/.test(dir) || dir.match(/^[A-Za-z]:[^:]*$/))
-
-      if (hasInvalidChars || hasInvalidColon) {
-        setError(JSON.stringify({
-          title: '잘못된 폴더 경로',
-          message: '폴더 경로에 사용할 수 없는 문자가 포함되어 있습니다.',
-          solutions: [
-            '1. 다른 폴더를 선택해주세요',
-            '2. 폴더명에 특수문자(<, >, ", |, ?, *)가 없는 폴더를 선택해주세요',
-            '3. 바탕화면이나 문서 폴더 같은 일반적인 위치를 선택해주세요'
-          ]
-        }))
-        return
-      }
+  // 빌드 단계는 production 모드에서만 거침
+  const visibleSteps = PROGRESS_STEPS.filter(step => step.key !== 'building' || serveMode === 'production')
 
-      // 길이 검증 (Windows 경로 제한)
-      if (dir.length > 260) {
-        setError(JSON.stringify({
-          title: '폴더 경로가 너무 깁니다',
-          message: '선택하신 폴더 경로가 너무 깁니다.',
-          solutions: [
-            '1. 더 짧은 경로의 폴더를 선택해주세요',
-            '2. 바탕화면이나 문서 폴더처럼 경로가 짧은 곳을 선택해주세요'
-          ]
-        }))
-        return
-      }
+  // 세션을 시작하고 끝날 때까지 (실행 완료 또는 실패) 기다림
+  const launchSession = async (sessionId: string, selection: VersionSelection | null) => {
+    const invalidDir = validateWorkspaceDir(dir)
+    if (invalidDir) {
+      setSessionError(sessionId, localError(invalidDir, dir))
+      return
     }
 
-    setError(null)
-    setIsRunning(true)
+    const config = buildConfig(selection)
+    if (!config) return
+
+    setSessionError(sessionId, null)
+    setLaunching((prev) => [...prev, sessionId])
 
     const payload: RepoCfg = {
-      ...FIXED_CFG,
+      ...config,
+      cleanInstall,
       workspaceDir: dir && dir.trim() ? dir.trim() : undefined,
     }
+    setCleanInstall(false)
 
-    const res = await window.api.startLesson(payload)
-    if (!res.ok) {
-      const errorInfo = getErrorSolution(res.error || '')
-      setError(JSON.stringify(errorInfo))
-      setIsRunning(false)
+    try {
+      const res = await window.api.startLesson(payload, sessionId)
+      // 수업 종료로 취소된 경우는 오류로 보여주지 않음
+      if (!res.ok && !res.cancelled) {
+        setSessionError(sessionId, res.failure ?? localError('UNKNOWN', res.error))
+      }
+    } finally {
+      setLaunching((prev) => prev.filter((id) => id !== sessionId))
     }
   }
 
-  const stop = async () => {
-    setIsRunning(false)
-    setCurrentStep('idle')
-    setError(null)
-    setClientStatus({ step: 'idle' })
-    await window.api.stopMock()
+  const startLesson = (versionOverride?: VersionSelection) => launchSession(activeSession, versionOverride ?? version)
+
+  // 마지막 정상 버전에 고정하고 다시 시작
+  const rollback = async () => {
+    if (!revision.lastGood) return
+    const sessionId = activeSession
+    const pinned: VersionSelection = { kind: 'commit', name: revision.lastGood }
+    handleChangeVersion(pinned)
+    await window.api.stopMock(sessionId)
+    await launchSession(sessionId, pinned)
+  }
+
+  // 바뀐 주소로 .env.local을 다시 만들기 위해 지금 버전 그대로 재시작 (저장된 버전 선택은 유지)
+  const restartForNewIP = async () => {
+    const sessionId = activeSession
+    const pinned: VersionSelection | null = revision.current ? { kind: 'commit', name: revision.current } : version
+    await window.api.stopMock(sessionId)
+    await launchSession(sessionId, pinned)
+  }
+
+  const canRollback = !!revision.lastGood && !!revision.current && revision.current !== revision.lastGood
+
+  const stop = async (sessionId = activeSession) => {
+    setSessionError(sessionId, null)
+    await window.api.stopMock(sessionId)
+  }
+
+  const addSession = () => {
+    const sessionId = nextSessionId(sessionIds)
+    addSessionTab(sessionId)
+    setActiveSession(sessionId)
+  }
+
+  // 실행 중이 아닌 탭만 닫음 (로그와 오류 표시도 함께 지움)
+  const closeSession = (sessionId: string) => {
+    setSessionIds((prev) => prev.filter((id) => id !== sessionId))
+    setLogs(({ [sessionId]: _logs, ...rest }) => rest)
+    setErrors(({ [sessionId]: _error, ...rest }) => rest)
+    if (activeSession === sessionId) setActiveSession(DEFAULT_SESSION_ID)
   }
 
   return (
@@ -301,14 +509,37 @@ export default function App() {
                 모의주식투자 환경을 원클릭으로 실행
                 {dir ? <span className="ml-2 text-gray-400">(경로: {dir})</span> : null}
               </p>
+              <label className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={serveMode === 'production'}
+                  onChange={(e) => handleToggleServeMode(e.target.checked)}
+                  disabled={isRunning}
+                  className="accent-carrot"
+                />
+                가벼운 실행 모드 (미리 빌드하여 제공, 학생이 많을 때 권장)
+              </label>
+              <label className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={cleanInstall}
+                  onChange={(e) => setCleanInstall(e.target.checked)}
+                  disabled={isRunning}
+                  className="accent-carrot"
+                />
+                다음 실행 시 프로그램 새로 설치 (실행이 계속 실패할 때만 사용)
+              </label>
             </div>
           </div>
           <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setView(view === 'history' ? 'lessons' : 'history')}>
+              {view === 'history' ? '🎓 수업 화면' : '📚 수업 기록'}
+            </Button>
             <Button variant="ghost" onClick={handleChooseDir} disabled={isRunning}>
               📁 {dir ? '저장 위치 변경' : '저장 위치 선택'}
             </Button>
             <Button
-              onClick={startLesson}
+              onClick={() => startLesson()}
               disabled={isRunning && currentStep !== 'error'}
               className={isRunning ? 'opacity-50 cursor-not-allowed' : ''}
             >
@@ -319,7 +550,7 @@ export default function App() {
             </Button>
             <Button
               variant="ghost"
-              onClick={stop}
+              onClick={() => stop()}
               disabled={!isRunning && currentStep === 'idle'}
               className={(!isRunning && currentStep === 'idle') ? 'opacity-50 cursor-not-allowed' : ''}
             >
@@ -329,83 +560,65 @@ export default function App() {
         </div>
       </header>
 
-      <main className="max-w-6xl mx-auto p-6 space-y-6">
-        {error && (() => {
-          try {
-            const errorInfo = JSON.parse(error)
-            return (
-              <section className="bg-red-50 border border-red-200 rounded-2xl p-6">
-                <div className="flex items-start gap-3">
-                  <div className="text-red-500 text-xl">⚠️</div>
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-red-800 mb-2">{errorInfo.title}</h3>
-                    <p className="text-sm text-red-700 mb-3">{errorInfo.message}</p>
-
-                    <div className="mb-3">
-                      <h4 className="font-medium text-red-800 mb-2">해결 방법:</h4>
-                      <ul className="text-sm text-red-700 space-y-1">
-                        {errorInfo.solutions.map((solution: string, index: number) => (
-                          <li key={index}>{solution}</li>
-                        ))}
-                      </ul>
-                    </div>
-
-                    {errorInfo.links && errorInfo.links.length > 0 && (
-                      <div className="mb-3">
-                        <h4 className="font-medium text-red-800 mb-2">다운로드 링크:</h4>
-                        <div className="flex flex-wrap gap-2">
-                          {errorInfo.links.map((link: { text: string; url: string }, index: number) => (
-                            <button
-                              key={index}
-                              onClick={() => window.api.openExternal(link.url)}
-                              className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors"
-                            >
-                              {link.text}
-                            </button>
-                          ))}
-                        </div>
-                      </div>
-                    )}
+      {view === 'history' && (
+        <main className="max-w-6xl mx-auto p-6 space-y-6">
+          <LessonHistory stepNames={STEP_NAMES} sessionLabel={sessionLabel} onClose={() => setView('lessons')} />
+        </main>
+      )}
+
+      {/* 기록 화면에서도 수업 화면의 입력 상태를 유지하도록 숨기기만 함 */}
+      <main className={`max-w-6xl mx-auto p-6 space-y-6 ${view === 'history' ? 'hidden' : ''}`}>
+        <SessionTabs
+          tabs={sessionIds.map((id) => ({
+            id,
+            label: sessionLabel(id),
+            status: statuses[id] ?? { step: 'idle' },
+            closable: id !== DEFAULT_SESSION_ID && !launching.includes(id)
+          }))}
+          activeId={activeSession}
+          onSelect={setActiveSession}
+          onAdd={addSession}
+          onStop={(id) => stop(id).catch(() => {})}
+          onClose={closeSession}
+        />
+
+        {error && (
+          <ErrorPanel
+            error={error}
+            solution={errorCatalog[error.code] ?? errorCatalog.UNKNOWN!}
+            stepName={PROGRESS_STEPS.find((step) => step.key === error.step && step.key !== 'idle')?.name}
+            onClose={() => setSessionError(activeSession, null)}
+          />
+        )}
 
-                    <button
-                      onClick={() => setError(null)}
-                      className="px-4 py-2 bg-red-100 hover:bg-red-200 text-red-800 rounded-md text-sm transition-colors"
-                    >
-                      확인
-                    </button>
-                  </div>
-                </div>
-              </section>
-            )
-          } catch {
-            // JSON 파싱 실패 시 기존 방식으로 표시ㅣ
-            return (
-              <section className="bg-red-50 border border-red-200 rounded-2xl p-6">
-                <div className="flex items-start gap-3">
-                  <div className="text-red-500 text-xl">⚠️</div>
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-red-800 mb-2">문제가 발생했습니다</h3>
-                    <pre className="text-sm text-red-700 whitespace-pre-wrap font-sans">{error}</pre>
-                    <button
-                      onClick={() => setError(null)}
-                      className="mt-3 px-4 py-2 bg-red-100 hover:bg-red-200 text-red-800 rounded-md text-sm transition-colors"
-                    >
-                      확인
-                    </button>
-                  </div>
-                </div>
-              </section>
-            )
-          }
-        })()}
+        {currentStep === 'error' && canRollback && (
+          <section className="bg-amber-50 border border-amber-200 rounded-2xl p-6">
+            <div className="flex items-start gap-3">
+              <div className="text-amber-500 text-xl">↩️</div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-amber-800 mb-2">이전 버전으로 되돌릴 수 있습니다</h3>
+                <p className="text-sm text-amber-700 mb-3">
+                  이번에 받은 새 버전(<code>{revision.current!.slice(0, 7)}</code>)에서 문제가 발생했습니다.
+                  마지막으로 수업이 정상 실행된 버전(<code>{revision.lastGood!.slice(0, 7)}</code>)으로 되돌려 다시 시작할 수 있습니다.
+                </p>
+                <button
+                  onClick={rollback}
+                  className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-md text-sm transition-colors"
+                >
+                  이전 정상 버전으로 되돌리기
+                </button>
+              </div>
+            </div>
+          </section>
+        )}
 
         {currentStep !== 'idle' && (
           <section className="bg-white rounded-2xl p-6 shadow-soft">
             <h2 className="font-semibold mb-4">진행 상태</h2>
             <div className="flex items-center justify-between mb-4">
-              {PROGRESS_STEPS.slice(1, -1).map((step, index) => {
+              {visibleSteps.slice(1, -1).map((step, index) => {
                 const isActive = step.key === currentStep
-                const isCompleted = PROGRESS_STEPS.findIndex(s => s.key === currentStep) > index + 1
+                const isCompleted = visibleSteps.findIndex(s => s.key === currentStep) > index + 1
                 const isError = currentStep === 'error'
 
                 return (
@@ -424,7 +637,7 @@ export default function App() {
                       }`}>
                       {step.name}
                     </span>
-                    {index < PROGRESS_STEPS.slice(1, -1).length - 1 && (
+                    {index < visibleSteps.slice(1, -1).length - 1 && (
                       <div className={`
                         absolute h-0.5 w-16 mt-6 transition-colors
                         ${isCompleted ? 'bg-green-300' : 'bg-gray-200'}
@@ -435,11 +648,33 @@ export default function App() {
               })}
             </div>
 
+            {currentStep === 'running' && ipChange && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-4">
+                <div className="font-semibold text-amber-800 mb-1">📡 네트워크 주소가 바뀌었습니다</div>
+                <p className="text-sm text-amber-700 mb-3">
+                  수업을 시작할 때의 주소(<code>{ipChange.previous}</code>)가 <code>{ipChange.current}</code>(으)로 바뀌어 학생들이 접속하지 못할 수 있습니다.
+                  환경 설정 파일을 새 주소로 다시 만들고 사이트를 재시작할 수 있습니다.
+                </p>
+                <button
+                  onClick={restartForNewIP}
+                  className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-md text-sm transition-colors"
+                >
+                  새 주소로 다시 시작
+                </button>
+              </div>
+            )}
+
             {currentStep === 'running' && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                 <div className="flex items-center gap-2 mb-4">
                   <span className="text-green-600">✅</span>
                   <span className="font-bold text-green-800 text-lg">모의주식 수업이 시작되었습니다!</span>
+                  <button
+                    onClick={() => window.api.openProjector(activeSession)}
+                    className="ml-auto px-3 py-1 bg-white border border-green-300 hover:bg-green-100 text-green-800 rounded text-sm transition-colors"
+                  >
+                    📽️ 프로젝터 화면 열기
+                  </button>
                 </div>
 
                 <div className="bg-white rounded-lg p-4 mb-4">
@@ -453,10 +688,15 @@ export default function App() {
                         <span className="font-bold text-blue-800">학생용 사이트</span>
                       </div>
                       <div className="bg-white rounded border p-3 mb-2">
-                        <code className="text-blue-700 font-mono text-sm break-all">{localIP}:3001</code>
+                        <code className="text-blue-700 font-mono text-sm break-all">{scheme === 'https' && 'https://'}{studentIP}:{ports.student}</code>
+                        {advertisedHostname && (
+                          <div className="text-xs text-gray-600 mt-1">
+                            또는 <code className="text-blue-700 font-mono break-all">{scheme === 'https' && 'https://'}{advertisedHostname}:{ports.student}</code>
+                          </div>
+                        )}
                       </div>
                       <button
-                        onClick={() => window.api.openExternal(`http://${localIP}:3001/signin`)}
+                        onClick={() => window.api.openExternal(`${scheme}://${studentIP}:${ports.student}/signin`)}
                         className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium transition-colors"
                       >
                         학생용 사이트 열기
@@ -473,10 +713,10 @@ export default function App() {
                         <span className="font-bold text-purple-800">선생님용 관리</span>
                       </div>
                       <div className="bg-white rounded border p-3 mb-2">
-                        <code className="text-purple-700 font-mono text-sm break-all">admin.localhost:3002</code>
+                        <code className="text-purple-700 font-mono text-sm break-all">{scheme === 'https' && 'https://'}admin.localhost:{ports.admin}</code>
                       </div>
                       <button
-                        onClick={() => window.api.openExternal('http://admin.localhost:3002/signin')}
+                        onClick={() => window.api.openExternal(`${scheme}://admin.localhost:${ports.admin}/signin`)}
                         className="w-full bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded text-sm font-medium transition-colors"
                       >
                         관리자 사이트 열기
@@ -484,10 +724,17 @@ export default function App() {
                       <div className="text-xs text-purple-600 mt-2 text-center">
                         수업 현황과 학생 활동을 관리할 수 있는 사이트입니다
                       </div>
+                      <div className="mt-2">
+                        <HostsEntryControl />
+                      </div>
                     </div>
                   </div>
                 </div>
 
+                <div className="bg-white rounded-lg p-4 mb-4">
+                  <LessonPinControl sessionId={activeSession} pin={lessonPin} />
+                </div>
+
                 <div className="bg-green-100 border border-green-300 rounded-lg p-4">
                   <div className="flex items-start gap-2">
                     <span className="text-green-600 text-lg">💡</span>
@@ -507,6 +754,114 @@ export default function App() {
           </section>
         )}
 
+        {repo && (
+          <section className="bg-white rounded-2xl p-6 shadow-soft">
+            <h2 className="font-semibold mb-4">실행 전 점검</h2>
+            <PreflightPanel
+              config={{ ...buildConfig(version)!, workspaceDir: dir.trim() || undefined }}
+              latest={launchPreflight}
+              disabled={isRunning}
+            />
+          </section>
+        )}
+
+        {repo && (
+          <section className="bg-white rounded-2xl p-6 shadow-soft">
+            <h2 className="font-semibold mb-4">수업 버전</h2>
+            <VersionPicker
+              repoUrl={repo.frontend.url}
+              value={version}
+              defaultBranch={repo.frontend.branch || 'main'}
+              lastGood={revision.lastGood}
+              disabled={isRunning}
+              onChange={handleChangeVersion}
+            />
+          </section>
+        )}
+
+        <section className="bg-white rounded-2xl p-6 shadow-soft">
+          <h2 className="font-semibold mb-4">수업 서버</h2>
+          <ServerProfilePicker
+            key={importCount}
+            value={serverProfileId}
+            disabled={isRunning}
+            onChange={handleChangeServerProfile}
+          />
+        </section>
+
+        <section className="bg-white rounded-2xl p-6 shadow-soft">
+          <h2 className="font-semibold mb-4">네트워크</h2>
+          <p className="text-xs text-gray-500 mb-3">학생들이 접속할 주소를 가진 네트워크 어댑터를 선택하세요. 현재 주소: <code>{localIP}</code></p>
+          <NetworkInterfacePicker
+            value={networkInterface}
+            disabled={isRunning}
+            onChange={handleChangeNetworkInterface}
+          />
+          <p className="text-xs text-gray-500 mt-4 mb-2">학생들이 IP 주소 대신 입력할 수 있는 이름 (같은 교실 네트워크에서만 동작)</p>
+          <LanHostnameField
+            value={lanHostname}
+            disabled={isRunning}
+            onSave={handleSaveLanHostname}
+          />
+        </section>
+
+        <section className="bg-white rounded-2xl p-6 shadow-soft">
+          <h2 className="font-semibold mb-4">접속 제한</h2>
+          <p className="text-xs text-gray-500 mb-3">다른 교실에서 학생용 사이트에 들어오지 못하게 합니다. 차단된 접속은 로그에 기록됩니다.</p>
+          <AccessControlSettings
+            value={accessControl}
+            disabled={isRunning}
+            onChange={handleChangeAccessControl}
+          />
+        </section>
+
+        <section className="bg-white rounded-2xl p-6 shadow-soft">
+          <h2 className="font-semibold mb-4">보안 연결 (HTTPS)</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={useHttps}
+              disabled={isRunning}
+              onChange={(e) => handleToggleHttps(e.target.checked)}
+            />
+            <span>학생용/관리자 사이트를 HTTPS로 제공</span>
+          </label>
+          <p className="text-xs text-gray-500 mt-2">
+            런처가 만든 인증서를 쓰므로 학생 기기와 이 PC에 인증서를 한 번 설치해야 경고 없이 접속할 수 있습니다.
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+            <button
+              onClick={handleExportCaCertificate}
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+            >
+              🔐 학생 기기용 인증서 내보내기
+            </button>
+          </div>
+          {caMessage && <p className="text-xs text-gray-600 mt-2 break-all">{caMessage}</p>}
+        </section>
+
+        <section className="bg-white rounded-2xl p-6 shadow-soft">
+          <h2 className="font-semibold mb-4">환경 설정</h2>
+          {repo && <EnvPreview config={buildConfig(version)!} sessionId={activeSession} disabled={isRunning} />}
+          <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+            <button
+              onClick={handleExportSettings}
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+            >
+              설정 내보내기
+            </button>
+            <button
+              onClick={handleImportSettings}
+              disabled={isRunning}
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              설정 가져오기
+            </button>
+            <span className="text-xs text-gray-500">다른 컴퓨터에 같은 설정을 옮길 때 사용하세요.</span>
+          </div>
+          {settingsMessage && <div className="text-xs text-gray-600 mt-2 break-all">{settingsMessage}</div>}
+        </section>
+
         <section className="bg-white rounded-2xl p-6 shadow-soft">
           <h2 className="font-semibold mb-4">사용 방법</h2>
           <ol className="list-decimal pl-5 space-y-2 text-sm text-gray-700">
@@ -514,6 +869,8 @@ export default function App() {
             <li><b>🎓 수업 시작</b> 버튼을 누르면 자동으로 모의주식 사이트가 준비됩니다.</li>
             <li>준비가 완료되면 학생들에게 웹사이트 주소를 알려주세요.</li>
             <li>수업이 끝나면 <b>⏹️ 수업 종료</b> 버튼을 눌러 마무리하세요.</li>
+            <li>두 반이나 두 수업 버전을 함께 진행하려면 <b>+ 새 수업</b> 탭을 열고 수업을 시작하세요. 탭마다 작업 폴더와 학생용 주소(포트)가 따로 있습니다.</li>
+            <li>지난 수업의 단계별 소요 시간과 실패 원인은 <b>📚 수업 기록</b>에서 확인하고 CSV로 내보낼 수 있습니다.</li>
           </ol>
         </section>
 
@@ -539,11 +896,38 @@ export default function App() {
                       📝 {clientStatus.message}
                     </span>
                   )}
+                  {!!clientStatus.restarts && (
+                    <span className="block text-xs text-amber-600 mt-1">
+                      🔄 자동 재시작 {clientStatus.restarts}회
+                    </span>
+                  )}
                 </span>
               </div>
+              {serverStatus && (
+                <div className="flex items-center gap-2">
+                  <div className={`w-3 h-3 rounded-full ${serverStatus.step === 'running' ? 'bg-green-500' :
+                    serverStatus.step === 'error' ? 'bg-red-500' :
+                      serverStatus.step === 'idle' ? 'bg-gray-300' :
+                        'bg-yellow-500'
+                    }`}></div>
+                  <span className="text-gray-700">
+                    서버: {serverStatus.step === 'idle' ? '대기중' :
+                      serverStatus.step === 'running' ? '✅ 실행중' :
+                        serverStatus.step === 'error' ? '❌ 문제발생' : '준비중'}
+                    {serverStatus.message && (
+                      <span className="block text-xs text-gray-500 mt-1">
+                        📝 {serverStatus.message}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
-          <LogPanel lines={logs} />
+          <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+            <LogPanel entries={logEntries} />
+            <ConnectedDevicesPanel clients={clients[activeSession] ?? []} />
+          </div>
           <p className="text-xs text-gray-500 mt-3">
             {dir ? (
               <>
@@ -559,6 +943,17 @@ export default function App() {
               </span>
             )}
           </p>
+          <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+            <button
+              onClick={handleExportDiagnostics}
+              disabled={exportingDiagnostics}
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {exportingDiagnostics ? '진단 정보 모으는 중...' : '🩺 진단 정보 내보내기'}
+            </button>
+            <span className="text-xs text-gray-500">문제가 생기면 이 파일을 지원팀에 보내주세요.</span>
+          </div>
+          {diagnosticsMessage && <div className="text-xs text-gray-600 mt-2 break-all">{diagnosticsMessage}</div>}
         </section>
       </main>
     </div>
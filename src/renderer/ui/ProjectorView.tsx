@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react'
+import { QrCode } from './components/QrCode'
+import logo from '../assets/logo.svg'
+
+type LaunchStatus = import('@shared/types').LaunchStatus
+
+function formatElapsed(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`
+}
+
+const INDICATOR = {
+  ready: { label: '접속 가능', className: 'bg-green-500' },
+  starting: { label: '준비 중', className: 'bg-amber-400 animate-pulse' },
+  error: { label: '문제 발생', className: 'bg-red-500' },
+  idle: { label: '수업 전', className: 'bg-gray-400' }
+}
+
+function indicatorOf(status: LaunchStatus): keyof typeof INDICATOR {
+  if (status.step === 'error' || status.client?.step === 'error') return 'error'
+  if (status.step === 'running') return status.client?.step === 'running' ? 'ready' : 'starting'
+  if (status.step === 'idle') return 'idle'
+  return 'starting'
+}
+
+// 프로젝터에 띄우는 학생 안내 화면 (메인 창에서 고른 세션의 상태를 그대로 따라감)
+export default function ProjectorView({ sessionId }: { sessionId: string }) {
+  const [status, setStatus] = useState<LaunchStatus>({ step: 'idle' })
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    window.api.getStatus().then((statuses) => setStatus(statuses[sessionId] ?? { step: 'idle' })).catch(() => {})
+    const off = window.api.onStatusUpdate((update) => {
+      if (update.sessionId === sessionId) setStatus(update.status)
+    })
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => {
+      off()
+      clearInterval(timer)
+    }
+  }, [sessionId])
+
+  const indicator = INDICATOR[indicatorOf(status)]
+  const scheme = status.https ? 'https' : 'http'
+  const studentUrl = status.localIP && status.ports
+    ? `${scheme}://${status.localIP}:${status.ports.student}/signin`
+    : null
+  // http는 주소창에 생략해도 되지만 https는 직접 입력해야 함
+  const displayUrl = (url: string) => status.https ? url : url.replace(/^http:\/\//, '')
+
+  return (
+    <div className="min-h-screen bg-white text-[#151515] flex flex-col">
+      <header className="flex items-center justify-between px-12 py-8">
+        <div className="flex items-center gap-4">
+          <img src={logo} alt="Mozu" className="w-14 h-14" />
+          <span className="text-4xl font-bold"><span className="text-carrot">모주</span> 모의주식투자</span>
+        </div>
+        <div className="flex items-center gap-4 text-3xl">
+          <span className={`inline-block w-6 h-6 rounded-full ${indicator.className}`} />
+          <span className="font-semibold">{indicator.label}</span>
+          {status.runningSince && (
+            <span className="ml-6 font-mono text-gray-500">{formatElapsed(now - status.runningSince)}</span>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center gap-20 px-12 pb-12">
+        {studentUrl ? (
+          <>
+            <div className="bg-white p-4 rounded-2xl shadow-soft">
+              <QrCode text={studentUrl} size={480} />
+            </div>
+            <div className="max-w-3xl">
+              <div className="text-4xl text-gray-500 mb-6">휴대폰 카메라로 QR 코드를 찍거나 아래 주소로 접속하세요</div>
+              {status.lanHostname ? (
+                <>
+                  <div className="text-7xl font-bold font-mono break-all leading-tight text-blue-700">
+                    {displayUrl(`${scheme}://${status.lanHostname}:${status.ports!.student}`)}
+                  </div>
+                  <div className="mt-6 text-4xl font-mono break-all text-gray-500">
+                    {displayUrl(studentUrl)}
+                  </div>
+                </>
+              ) : (
+                <div className="text-7xl font-bold font-mono break-all leading-tight text-blue-700">
+                  {displayUrl(studentUrl)}
+                </div>
+              )}
+              {status.lessonPin && (
+                <div className="mt-10 text-4xl text-gray-500">
+                  수업 PIN <span className="ml-4 text-7xl font-bold font-mono tracking-widest text-[#151515]">{status.lessonPin}</span>
+                </div>
+              )}
+              {status.step !== 'running' && (
+                <div className="mt-8 text-3xl text-amber-600">{status.message || '사이트를 준비하고 있습니다...'}</div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="text-5xl text-gray-400">
+            {status.step === 'error' ? '수업을 시작하지 못했습니다' : status.message || '수업이 시작되면 접속 주소가 표시됩니다'}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react'
+import type { AccessControlSettings as Settings, NetworkInterfaceInfo } from '@shared/types'
+
+type Props = {
+  value: Settings
+  disabled?: boolean
+  onChange: (next: Settings) => void
+}
+
+// 메인 프로세스의 isValidCidr와 같은 형식 (예: 192.168.10.0/24)
+const CIDR = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/
+
+function isValidCidr(entry: string): boolean {
+  const match = CIDR.exec(entry)
+  return !!match && match.slice(1, 5).every((part) => Number(part) <= 255) && Number(match[5]) <= 32
+}
+
+export const AccessControlSettings: React.FC<Props> = ({ value, disabled, onChange }) => {
+  const [interfaces, setInterfaces] = useState<NetworkInterfaceInfo[]>([])
+  const [draft, setDraft] = useState('')
+
+  useEffect(() => {
+    window.api.listNetworkInterfaces().then(setInterfaces).catch(() => {})
+  }, [])
+
+  const entry = draft.trim()
+  const isAdapter = interfaces.some((iface) => iface.name === entry)
+  const canAdd = entry !== '' && (isValidCidr(entry) || isAdapter) && !value.allowedNetworks.includes(entry)
+
+  const add = (next: string) => {
+    onChange({ ...value, allowedNetworks: [...value.allowedNetworks, next] })
+    setDraft('')
+  }
+
+  const remove = (target: string) => {
+    onChange({ ...value, allowedNetworks: value.allowedNetworks.filter((item) => item !== target) })
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <div className="text-gray-700 mb-1">접속을 허용할 네트워크</div>
+        {value.allowedNetworks.length === 0 ? (
+          <div className="text-xs text-gray-500 mb-2">제한 없음 — 같은 Wi-Fi의 모든 기기가 학생용 사이트에 접속할 수 있습니다.</div>
+        ) : (
+          <ul className="flex flex-wrap gap-2 mb-2">
+            {value.allowedNetworks.map((item) => (
+              <li key={item} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-100 font-mono text-xs">
+                {item}
+                <button
+                  onClick={() => remove(item)}
+                  disabled={disabled}
+                  className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                  title="삭제"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            list="access-control-interfaces"
+            value={draft}
+            disabled={disabled}
+            placeholder="예: 192.168.10.0/24 또는 어댑터 이름"
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && canAdd && add(entry)}
+            className="px-2 py-1 rounded border border-gray-300 font-mono disabled:opacity-50"
+          />
+          <datalist id="access-control-interfaces">
+            {interfaces.map((iface) => (
+              <option key={`${iface.name}-${iface.address}`} value={iface.name}>{iface.address}</option>
+            ))}
+          </datalist>
+          <button
+            onClick={() => add(entry)}
+            disabled={disabled || !canAdd}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            추가
+          </button>
+        </div>
+        {entry !== '' && !canAdd && !value.allowedNetworks.includes(entry) && (
+          <div className="text-xs text-amber-700 mt-1">CIDR 형식(예: 192.168.10.0/24)이나 이 PC의 네트워크 어댑터 이름을 입력하세요.</div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.requirePin}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, requirePin: e.target.checked })}
+        />
+        <span>수업마다 PIN 입력 후 입장 (PIN은 수업을 시작할 때 새로 만들어지고 프로젝터 화면에 표시됩니다)</span>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react'
+import type { ConnectedClient } from '@shared/types'
+
+interface ConnectedDevicesPanelProps {
+  clients: ConnectedClient[]
+}
+
+// 이 시간 안에 요청이 있었거나 웹소켓이 열려 있으면 접속 중으로 봄
+const ACTIVE_WITHIN_MS = 60000
+
+function formatAgo(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  if (seconds < 5) return '방금'
+  if (seconds < 60) return `${seconds}초 전`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}분 전`
+  return `${Math.floor(minutes / 60)}시간 전`
+}
+
+// User-Agent로 대략적인 기기 종류만 표시
+function deviceKind(userAgent?: string): string {
+  if (!userAgent) return ''
+  if (/ipad|tablet/i.test(userAgent)) return '태블릿'
+  if (/iphone|android.*mobile|mobile/i.test(userAgent)) return '휴대폰'
+  if (/android/i.test(userAgent)) return '태블릿'
+  return 'PC'
+}
+
+export const ConnectedDevicesPanel: React.FC<ConnectedDevicesPanelProps> = ({ clients }) => {
+  const [now, setNow] = useState(Date.now())
+
+  // "n초 전" 표시와 접속 중 판단을 위해 주기적으로 다시 그림
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const isActive = (client: ConnectedClient) =>
+    client.openSockets > 0 || now - client.lastSeen < ACTIVE_WITHIN_MS
+  const activeCount = clients.filter(isActive).length
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between p-3 bg-gray-800 rounded-t-2xl border-b border-gray-600">
+        <h3 className="text-white font-semibold">접속한 기기</h3>
+        <span className="text-xs text-gray-300">
+          접속 중 {activeCount}대 / 전체 {clients.length}대
+        </span>
+      </div>
+
+      <div className="flex-1 min-h-[360px] max-h-[70vh] overflow-auto bg-gray-900 rounded-b-2xl p-3 text-sm">
+        {clients.length === 0 ? (
+          <div className="text-gray-500 italic p-1">
+            아직 접속한 학생 기기가 없습니다. 수업이 시작되면 접속한 기기가 여기에 표시됩니다.
+          </div>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs text-gray-400">
+                <th className="pb-2 font-normal">주소</th>
+                <th className="pb-2 font-normal text-right">요청</th>
+                <th className="pb-2 font-normal text-right">마지막 접속</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clients.map((client) => {
+                const active = isActive(client)
+                return (
+                  <tr key={client.ip} className={active ? 'text-green-200' : 'text-gray-500'} title={client.userAgent}>
+                    <td className="py-1 font-mono">
+                      <span className={`inline-block w-2 h-2 rounded-full mr-2 ${active ? 'bg-green-500' : 'bg-gray-600'}`} />
+                      {client.ip}
+                      {deviceKind(client.userAgent) && (
+                        <span className="ml-2 text-xs text-gray-400">{deviceKind(client.userAgent)}</span>
+                      )}
+                    </td>
+                    <td className="py-1 text-right font-mono">{client.requests}</td>
+                    <td className="py-1 text-right">{formatAgo(now - client.lastSeen)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
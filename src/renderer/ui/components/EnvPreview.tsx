@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react'
+import type { EnvOverrides, RenderedEnvFile, RepoConfig } from '@shared/types'
+
+type Props = {
+  config: RepoConfig
+  sessionId?: string          // 이 세션이 실행 중이면 실제 배정된 포트로 미리보기
+  disabled?: boolean
+}
+
+function overridesToText(vars: Record<string, string> = {}): string {
+  return Object.entries(vars).map(([key, value]) => `${key}=${value}`).join('\n')
+}
+
+// KEY=value 줄 단위 파싱 (빈 줄과 # 주석은 무시)
+function textToOverrides(text: string): Record<string, string> {
+  const vars: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) continue
+    const eq = trimmed.indexOf('=')
+    if (eq <= 0) continue
+    vars[trimmed.slice(0, eq).trim()] = trimmed.slice(eq + 1).trim()
+  }
+  return vars
+}
+
+export const EnvPreview: React.FC<Props> = ({ config, sessionId, disabled }) => {
+  const [open, setOpen] = useState(false)
+  const [files, setFiles] = useState<RenderedEnvFile[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [saved, setSaved] = useState<EnvOverrides>({})
+  const [saving, setSaving] = useState(false)
+
+  const refresh = async () => {
+    const [rendered, overrides] = await Promise.all([
+      window.api.previewEnvFiles(config, sessionId),
+      window.api.getEnvOverrides()
+    ])
+    setFiles(rendered)
+    setSaved(overrides)
+    setDrafts(Object.fromEntries(rendered.map((f) => [f.target, overridesToText(overrides[f.target])])))
+  }
+
+  useEffect(() => {
+    if (open) refresh().catch(() => {})
+  }, [open, config.serverProfileId, sessionId])
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const next: EnvOverrides = {}
+      for (const [target, text] of Object.entries(drafts)) {
+        next[target] = textToOverrides(text)
+      }
+      await window.api.setEnvOverrides(next)
+      await refresh()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const isDirty = files.some((f) => (drafts[f.target] ?? '') !== overridesToText(saved[f.target]))
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+      >
+        {open ? '환경 설정 파일 닫기' : '환경 설정 파일(.env.local) 미리보기'}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-4">
+          <p className="text-xs text-gray-500">
+            수업 시작 시 아래 내용으로 파일이 만들어집니다. 직접 바꾸고 싶은 값은 오른쪽에 <code>KEY=값</code> 형식으로 적어주세요 (다음 실행에도 유지됩니다).
+          </p>
+          {files.map((file) => (
+            <div key={file.target} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <div className="font-mono text-xs text-gray-600 mb-1">{file.target}</div>
+                <pre className="bg-gray-900 text-green-200 rounded-lg p-3 text-xs overflow-auto whitespace-pre-wrap break-all">{file.content}</pre>
+              </div>
+              <div>
+                <div className="text-xs text-gray-600 mb-1">
+                  직접 지정한 값 {file.overridden.length > 0 && <span className="text-amber-600">({file.overridden.length}개 적용 중)</span>}
+                </div>
+                <textarea
+                  value={drafts[file.target] ?? ''}
+                  onChange={(e) => setDrafts({ ...drafts, [file.target]: e.target.value })}
+                  disabled={disabled}
+                  placeholder="예) VITE_SERVER_URL=http://192.168.0.10:8080"
+                  rows={5}
+                  className="w-full font-mono text-xs px-2 py-1 rounded border border-gray-300"
+                />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={save}
+            disabled={disabled || saving || !isDirty}
+            className="px-3 py-1 rounded bg-carrot text-white disabled:opacity-50"
+          >
+            {saving ? '저장 중...' : '직접 지정한 값 저장'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
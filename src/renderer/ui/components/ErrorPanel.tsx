@@ -0,0 +1,81 @@
+import React, { useState } from 'react'
+import type { ErrorSolution, LaunchError } from '@shared/types'
+
+type Props = {
+  error: LaunchError
+  solution: ErrorSolution
+  stepName?: string
+  onClose: () => void
+}
+
+export const ErrorPanel: React.FC<Props> = ({ error, solution, stepName, onClose }) => {
+  const [showDetails, setShowDetails] = useState(false)
+
+  return (
+    <section className="bg-red-50 border border-red-200 rounded-2xl p-6">
+      <div className="flex items-start gap-3">
+        <div className="text-red-500 text-xl">⚠️</div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-red-800 mb-2">{solution.title}</h3>
+          <p className="text-sm text-red-700 mb-3">{solution.message}</p>
+
+          <div className="mb-3">
+            <h4 className="font-medium text-red-800 mb-2">해결 방법:</h4>
+            <ul className="text-sm text-red-700 space-y-1">
+              {solution.solutions.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          </div>
+
+          {solution.links && solution.links.length > 0 && (
+            <div className="mb-3">
+              <h4 className="font-medium text-red-800 mb-2">다운로드 링크:</h4>
+              <div className="flex flex-wrap gap-2">
+                {solution.links.map((link, index) => (
+                  <button
+                    key={index}
+                    onClick={() => window.api.openExternal(link.url)}
+                    className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm transition-colors"
+                  >
+                    {link.text}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-red-100 hover:bg-red-200 text-red-800 rounded-md text-sm transition-colors"
+            >
+              확인
+            </button>
+            <button
+              onClick={() => setShowDetails(!showDetails)}
+              className="px-3 py-2 text-red-700 hover:text-red-900 text-sm"
+            >
+              {showDetails ? '자세한 정보 닫기' : '자세한 정보 보기'}
+            </button>
+          </div>
+
+          {showDetails && (
+            <div className="mt-3 space-y-2 text-xs text-red-800">
+              <div>
+                오류 코드: <code className="bg-red-100 px-1 rounded">{error.code}</code>
+                {stepName && <> · 실패한 단계: {stepName}</>}
+              </div>
+              <pre className="whitespace-pre-wrap break-all bg-red-100 rounded p-2">{error.message}</pre>
+              {error.logExcerpt.length > 0 && (
+                <pre className="bg-gray-900 text-green-200 rounded p-2 max-h-60 overflow-auto whitespace-pre-wrap break-all">
+                  {error.logExcerpt.join('\n')}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react'
+import type { HostsStatus } from '@shared/types'
+
+type Props = {
+  disabled?: boolean
+  onChange?: (status: HostsStatus) => void
+}
+
+// admin.localhost가 hosts 파일에 등록되어 있는지 보여주고 런처 관리 항목을 추가/제거
+export const HostsEntryControl: React.FC<Props> = ({ disabled, onChange }) => {
+  const [status, setStatus] = useState<HostsStatus | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.api.getHostsStatus().then(setStatus).catch(() => {})
+  }, [])
+
+  const apply = async (action: 'install' | 'remove') => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const res = action === 'install'
+        ? await window.api.installHostsEntry()
+        : await window.api.removeHostsEntry()
+      if (res.status) {
+        setStatus(res.status)
+        onChange?.(res.status)
+      }
+      if (!res.ok) setMessage(res.error || 'hosts 파일을 바꾸지 못했습니다.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!status) return null
+
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={status.mapped ? 'text-green-700' : 'text-amber-700'}>
+          {status.mapped
+            ? `hosts 파일에 admin.localhost 등록됨${status.managed ? ' (런처가 관리)' : ''}`
+            : 'hosts 파일에 admin.localhost가 없습니다'}
+        </span>
+        {status.dryRun && <span className="text-gray-400">dry-run: {status.path}</span>}
+        {!status.mapped && (
+          <button
+            onClick={() => apply('install')}
+            disabled={disabled || busy}
+            className="px-2 py-0.5 rounded border border-amber-300 text-amber-800 hover:bg-amber-50 disabled:opacity-50"
+          >
+            {busy ? '변경 중...' : 'hosts 파일에 추가 (관리자 권한)'}
+          </button>
+        )}
+        {status.managed && (
+          <button
+            onClick={() => apply('remove')}
+            disabled={disabled || busy}
+            className="px-2 py-0.5 rounded border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            런처 항목 제거
+          </button>
+        )}
+      </div>
+      {status.error && <div className="text-red-700">{status.error}</div>}
+      {message && <div className="text-red-700">{message}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react'
+
+type Props = {
+  value: string               // '' = 광고하지 않음
+  disabled?: boolean
+  onSave: (name: string) => Promise<{ ok: boolean; error?: string }>
+}
+
+// 메인 프로세스의 normalizeHostname과 같은 규칙 (.local 앞의 한 단어)
+const HOSTNAME_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/
+
+export const LanHostnameField: React.FC<Props> = ({ value, disabled, onSave }) => {
+  const [draft, setDraft] = useState(value)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const normalized = draft.trim().toLowerCase().replace(/\.local\.?$/, '')
+  const valid = normalized === '' || HOSTNAME_LABEL.test(normalized)
+
+  const save = async () => {
+    if (!valid || normalized === value) return
+    const res = await onSave(normalized)
+    setError(res.ok ? null : res.error || '저장하지 못했습니다')
+    if (res.ok) setDraft(normalized)
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          disabled={disabled}
+          placeholder="예: mozu-room3"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => save().catch(() => {})}
+          onKeyDown={(e) => e.key === 'Enter' && save().catch(() => {})}
+          className="px-2 py-1 rounded border border-gray-300 font-mono disabled:opacity-50"
+        />
+        <span className="text-gray-600">.local</span>
+      </div>
+      {!valid && (
+        <div className="text-xs text-red-600">영문 소문자, 숫자, 하이픈(-)만 쓸 수 있고 하이픈으로 시작하거나 끝날 수 없습니다.</div>
+      )}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="text-xs text-gray-500">
+        비워 두면 이름을 광고하지 않습니다. 일부 안드로이드 기기는 .local 이름을 찾지 못하므로 IP 주소도 함께 안내해주세요.
+      </div>
+    </div>
+  )
+}
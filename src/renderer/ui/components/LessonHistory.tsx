@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react'
+import type { LessonOutcome, LessonRecord } from '@shared/types'
+
+type Props = {
+  stepNames: Record<string, string>
+  sessionLabel: (id: string) => string
+  onClose: () => void
+}
+
+const OUTCOMES: Record<LessonOutcome, { label: string; className: string }> = {
+  running: { label: '진행 중', className: 'text-yellow-700 bg-yellow-50' },
+  completed: { label: '정상 종료', className: 'text-green-700 bg-green-50' },
+  failed: { label: '실패', className: 'text-red-700 bg-red-50' },
+  cancelled: { label: '준비 중 종료', className: 'text-gray-600 bg-gray-100' },
+  interrupted: { label: '런처 꺼짐', className: 'text-amber-700 bg-amber-50' }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  if (seconds < 60) return `${seconds}초`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}분 ${seconds % 60}초`
+  return `${Math.floor(minutes / 60)}시간 ${minutes % 60}분`
+}
+
+function formatStart(time: number): string {
+  return new Date(time).toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+// 지난 수업 목록 (단계별 소요 시간과 실패 코드로 느린 PC나 자주 실패하는 단계를 찾는 용도)
+export const LessonHistory: React.FC<Props> = ({ stepNames, sessionLabel, onClose }) => {
+  const [records, setRecords] = useState<LessonRecord[] | null>(null)
+  const [failuresOnly, setFailuresOnly] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.api.getLessonHistory().then(setRecords).catch(() => setRecords([]))
+  }, [])
+
+  const visible = (records ?? []).filter((record) => !failuresOnly || record.outcome === 'failed')
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const res = await window.api.exportLessonHistory(failuresOnly)
+      if (res.ok) setMessage(`수업 기록을 저장했습니다: ${res.path}`)
+      else if (res.error) setMessage(`수업 기록을 저장하지 못했습니다: ${res.error}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <section className="bg-white rounded-2xl p-6 shadow-soft">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="font-semibold">수업 기록</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={failuresOnly}
+              onChange={(e) => setFailuresOnly(e.target.checked)}
+              className="accent-carrot"
+            />
+            실패한 수업만
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting || visible.length === 0}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {exporting ? '저장 중...' : '📄 CSV 내보내기'}
+          </button>
+          <button onClick={onClose} className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50">
+            ← 수업 화면으로
+          </button>
+        </div>
+      </div>
+      {message && <div className="text-xs text-gray-600 mb-3 break-all">{message}</div>}
+
+      {records === null ? (
+        <div className="text-sm text-gray-500">불러오는 중...</div>
+      ) : visible.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          {failuresOnly ? '실패한 수업이 없습니다.' : '아직 기록된 수업이 없습니다. 수업을 시작하면 여기에 기록됩니다.'}
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-[70vh]">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b">
+                <th className="py-2 pr-3 font-normal">시작</th>
+                <th className="py-2 pr-3 font-normal">수업 시간</th>
+                <th className="py-2 pr-3 font-normal">PC / 세션</th>
+                <th className="py-2 pr-3 font-normal">버전</th>
+                <th className="py-2 pr-3 font-normal">결과</th>
+                <th className="py-2 pr-3 font-normal text-right">최대 접속</th>
+                <th className="py-2 font-normal">단계별 시간</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((record) => {
+                const outcome = OUTCOMES[record.outcome]
+                return (
+                  <tr key={record.id} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatStart(record.startedAt)}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      {record.stoppedAt ? formatDuration(record.stoppedAt - record.startedAt) : '-'}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div>{record.host}</div>
+                      <div className="text-xs text-gray-500">{sessionLabel(record.sessionId)}</div>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div>{record.version || '-'}</div>
+                      {record.revision && <code className="text-xs text-gray-500">{record.revision.slice(0, 7)}</code>}
+                      {record.mode === 'production' && <div className="text-xs text-gray-500">가벼운 실행</div>}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${outcome.className}`}>{outcome.label}</span>
+                      {record.errorCode && (
+                        <div className="text-xs text-red-600 mt-1">
+                          <code>{record.errorCode}</code>
+                          {record.errorStep && <span> ({stepNames[record.errorStep] ?? record.errorStep})</span>}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-mono">{record.peakClients}</td>
+                    <td className="py-2 text-xs text-gray-600">
+                      {record.steps.map((timing, i) => (
+                        <span key={i} className="inline-block mr-2 whitespace-nowrap">
+                          {stepNames[timing.step] ?? timing.step} {formatDuration(timing.durationMs)}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,71 @@
+import React, { useState } from 'react'
+
+type Props = {
+  sessionId: string
+  pin: string                 // '' = PIN 확인 없음
+}
+
+const LESSON_PIN = /^\d{4,8}$/
+
+function randomPin(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1))
+  return String(value % 10000).padStart(4, '0')
+}
+
+// 수업 중 PIN 변경 (이미 입장한 학생은 다시 입력하지 않아도 됨)
+export const LessonPinControl: React.FC<Props> = ({ sessionId, pin }) => {
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const apply = async (next: string) => {
+    const res = await window.api.setLessonPin(sessionId, next)
+    setError(res.ok ? null : res.error || 'PIN을 바꾸지 못했습니다')
+    if (res.ok) setDraft('')
+  }
+
+  return (
+    <div className="text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-gray-700">수업 PIN</span>
+        {pin ? (
+          <code className="text-2xl font-bold tracking-widest text-gray-900">{pin}</code>
+        ) : (
+          <span className="text-gray-500">사용 안 함</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={draft}
+          placeholder="새 PIN (4~8자리 숫자)"
+          maxLength={8}
+          onChange={(e) => setDraft(e.target.value.replace(/\D/g, ''))}
+          className="px-2 py-1 rounded border border-gray-300 font-mono w-44"
+        />
+        <button
+          onClick={() => apply(draft).catch(() => {})}
+          disabled={!LESSON_PIN.test(draft)}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          변경
+        </button>
+        <button
+          onClick={() => apply(randomPin()).catch(() => {})}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+        >
+          무작위 PIN
+        </button>
+        {pin && (
+          <button
+            onClick={() => apply('').catch(() => {})}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50"
+          >
+            PIN 끄기
+          </button>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  )
+}
@@ -1,10 +1,15 @@
 import React, { useEffect, useRef, useState } from 'react'
+import type { LogEntry, LogLevel } from '@shared/types'
 
 interface LogPanelProps {
-  lines: string[]
+  entries: LogEntry[]
 }
 
-export const LogPanel: React.FC<LogPanelProps> = ({ lines }) => {
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString('ko-KR', { hour12: false })
+}
+
+export const LogPanel: React.FC<LogPanelProps> = ({ entries }) => {
   const ref = useRef<HTMLDivElement>(null)
   const [isAutoScroll, setIsAutoScroll] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -13,7 +18,7 @@ export const LogPanel: React.FC<LogPanelProps> = ({ lines }) => {
     if (isAutoScroll && ref.current) {
       ref.current.scrollTo({ top: ref.current.scrollHeight, behavior: 'smooth' })
     }
-  }, [lines.length, isAutoScroll])
+  }, [entries, isAutoScroll])
 
   const handleScroll = () => {
     if (ref.current) {
@@ -31,26 +36,18 @@ export const LogPanel: React.FC<LogPanelProps> = ({ lines }) => {
   }
 
 
-  const getLogLevel = (line: string) => {
-    if (line.includes('[ERROR]') || line.toLowerCase().includes('error')) return 'error'
-    if (line.includes('[WARN]') || line.toLowerCase().includes('warn')) return 'warn'
-    if (line.includes('[INFO]') || line.toLowerCase().includes('info')) return 'info'
-    if (line.includes('[DEBUG]') || line.toLowerCase().includes('debug')) return 'debug'
-    return 'default'
-  }
-
-  const getLogColor = (level: string) => {
+  const getLogColor = (level: LogLevel) => {
     switch (level) {
       case 'error': return 'text-red-400'
       case 'warn': return 'text-yellow-400'
-      case 'info': return 'text-blue-400'
       case 'debug': return 'text-gray-400'
       default: return 'text-green-200'
     }
   }
 
-  const filteredLines = lines.filter(line =>
-    searchTerm === '' || line.toLowerCase().includes(searchTerm.toLowerCase())
+  const term = searchTerm.toLowerCase()
+  const filteredEntries = entries.filter(entry =>
+    term === '' || entry.text.toLowerCase().includes(term) || entry.source.toLowerCase().includes(term)
   )
 
   return (
@@ -107,35 +104,22 @@ export const LogPanel: React.FC<LogPanelProps> = ({ lines }) => {
           scrollbar-thin scrollbar-track-gray-800 scrollbar-thumb-gray-600
         "
       >
-        {filteredLines.length === 0 && searchTerm ? (
+        {filteredEntries.length === 0 && searchTerm ? (
           <div className="text-gray-500 italic">검색 결과가 없습니다.</div>
         ) : (
-          filteredLines.map((line, i) => {
-            const level = getLogLevel(line)
-            const color = getLogColor(level)
-            return (
-              <div key={i} className={`${color} mb-1 leading-relaxed`}>
-                {/* 타임스탬프나 로그 레벨을 하이라이트 */}
-                {line.includes('[') && line.includes(']') ? (
-                  <span>
-                    {line.split(/(\[[^\]]+\])/).map((part, idx) => (
-                      <span key={idx} className={part.startsWith('[') && part.endsWith(']') ? 'font-bold' : ''}>
-                        {part}
-                      </span>
-                    ))}
-                  </span>
-                ) : (
-                  line
-                )}
-              </div>
-            )
-          })
+          filteredEntries.map((entry) => (
+            <div key={entry.seq} className={`${getLogColor(entry.level)} mb-1 leading-relaxed break-all`}>
+              <span className="text-gray-500 mr-2">{formatTime(entry.time)}</span>
+              <span className="font-bold mr-2">[{entry.source}]</span>
+              {entry.text}
+            </div>
+          ))
         )}
         
         {/* 검색된 결과 개수 표시 */}
         {searchTerm && (
           <div className="text-gray-500 text-xs mt-2 border-t border-gray-700 pt-2">
-            {filteredLines.length}개의 검색 결과 (전체 {lines.length}개 중)
+            {filteredEntries.length}개의 검색 결과 (전체 {entries.length}개 중)
           </div>
         )}
       </div>
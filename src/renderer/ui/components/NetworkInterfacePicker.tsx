@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react'
+import type { NetworkInterfaceInfo } from '@shared/types'
+
+type Props = {
+  value: string               // '' = 자동 선택
+  disabled?: boolean
+  onChange: (name: string) => void
+}
+
+export const NetworkInterfacePicker: React.FC<Props> = ({ value, disabled, onChange }) => {
+  const [interfaces, setInterfaces] = useState<NetworkInterfaceInfo[]>([])
+
+  const refresh = async () => {
+    setInterfaces(await window.api.listNetworkInterfaces())
+  }
+
+  useEffect(() => {
+    refresh().catch(() => {})
+  }, [])
+
+  const selected = interfaces.find((iface) => iface.name === value)
+  // 저장된 어댑터가 지금은 없을 때 (Wi-Fi 꺼짐, 랜선 분리 등)
+  const missing = value !== '' && interfaces.length > 0 && !selected
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+          className="px-2 py-1 rounded border border-gray-300 bg-white disabled:opacity-50"
+        >
+          <option value="">자동 선택 (가상 어댑터 제외)</option>
+          {interfaces.map((iface) => (
+            <option key={`${iface.name}-${iface.address}`} value={iface.name}>
+              {iface.name} — {iface.address}{iface.virtual ? ' (가상/VPN 어댑터)' : ''}
+            </option>
+          ))}
+          {missing && <option value={value}>{value} (연결되지 않음)</option>}
+        </select>
+        <button
+          onClick={() => refresh().catch(() => {})}
+          disabled={disabled}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          새로고침
+        </button>
+      </div>
+      {selected?.virtual && (
+        <div className="text-xs text-amber-700">
+          가상 어댑터나 VPN 주소는 학생 기기에서 접속하지 못할 수 있습니다. 교실 Wi-Fi나 유선 랜 어댑터를 선택해주세요.
+        </div>
+      )}
+      {missing && (
+        <div className="text-xs text-amber-700">
+          선택한 어댑터({value})를 찾을 수 없어 자동으로 고른 주소를 사용합니다.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react'
+import type { PreflightReport, PreflightResult, RepoConfig } from '@shared/types'
+import { HostsEntryControl } from './HostsEntryControl'
+
+type Props = {
+  config: RepoConfig
+  latest?: PreflightReport | null   // 수업 시작 시 메인 프로세스가 다시 점검한 결과
+  disabled?: boolean
+}
+
+const RESULT_STYLE: Record<PreflightResult, { icon: string; className: string }> = {
+  pass: { icon: '✅', className: 'text-green-700' },
+  warn: { icon: '⚠️', className: 'text-amber-700' },
+  fail: { icon: '❌', className: 'text-red-700' }
+}
+
+export const PreflightPanel: React.FC<Props> = ({ config, latest, disabled }) => {
+  const [report, setReport] = useState<PreflightReport | null>(null)
+  const [checking, setChecking] = useState(false)
+
+  const run = async () => {
+    setChecking(true)
+    try {
+      setReport(await window.api.runPreflight(config))
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  useEffect(() => {
+    run().catch(() => {})
+  }, [config.workspaceDir, config.serverProfileId])
+
+  // 미리 점검한 결과와 수업 시작 때 점검한 결과 중 최신 것을 보여줌
+  const shown = latest && (!report || latest.checkedAt > report.checkedAt) ? latest : report
+  const failures = shown?.checks.filter((c) => c.result === 'fail').length ?? 0
+  const warnings = shown?.checks.filter((c) => c.result === 'warn').length ?? 0
+
+  return (
+    <div className="text-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => run().catch(() => {})}
+          disabled={disabled || checking}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {checking ? '점검 중...' : '다시 점검'}
+        </button>
+        {shown && (
+          <span className={failures > 0 ? 'text-red-700' : warnings > 0 ? 'text-amber-700' : 'text-green-700'}>
+            {failures > 0
+              ? `문제 ${failures}개를 해결해야 수업을 시작할 수 있습니다`
+              : warnings > 0 ? `주의 항목 ${warnings}개` : '모든 항목 정상'}
+          </span>
+        )}
+        {shown && (
+          <span className="text-xs text-gray-400">
+            {new Date(shown.checkedAt).toLocaleTimeString()} 기준
+          </span>
+        )}
+      </div>
+
+      {shown && (
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {shown.checks.map((check) => (
+            <li key={check.id} className="flex items-start gap-3 px-3 py-2">
+              <span>{RESULT_STYLE[check.result].icon}</span>
+              <span className="w-36 shrink-0 font-medium">{check.label}</span>
+              <span className={`flex-1 break-all ${RESULT_STYLE[check.result].className}`}>{check.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* hosts 파일을 바꾸면 admin.localhost 항목을 다시 점검 */}
+      <HostsEntryControl disabled={disabled} onChange={() => run().catch(() => {})} />
+    </div>
+  )
+}
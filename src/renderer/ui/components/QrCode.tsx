@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react'
+import { encodeQr } from '../qrcode'
+
+type Props = {
+  text: string
+  size?: number        // 픽셀 크기 (정사각형)
+  className?: string
+}
+
+// 스캔이 잘 되도록 둘레에 4칸 여백을 둠
+const QUIET_ZONE = 4
+
+export const QrCode: React.FC<Props> = ({ text, size = 320, className }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(text)
+    const commands: string[] = []
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`)
+      })
+    })
+    return { path: commands.join(''), dimension: modules.length + QUIET_ZONE * 2 }
+  }, [text])
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label={text}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react'
+import type { ServerProfile } from '@shared/types'
+
+type Props = {
+  value: string
+  disabled?: boolean
+  onChange: (id: string) => void
+}
+
+const EMPTY_DRAFT: ServerProfile = { id: '', name: '', serverUrl: '' }
+
+export const ServerProfilePicker: React.FC<Props> = ({ value, disabled, onChange }) => {
+  const [profiles, setProfiles] = useState<ServerProfile[]>([])
+  const [draft, setDraft] = useState<ServerProfile | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  // 프로필 id별 연결 확인 결과 (undefined면 확인 중)
+  const [reachable, setReachable] = useState<Record<string, boolean | undefined>>({})
+
+  const refresh = async () => {
+    const res = await window.api.listServerProfiles()
+    setProfiles(res.profiles)
+    if (!res.profiles.some((p) => p.id === value)) onChange(res.selectedId)
+  }
+
+  useEffect(() => {
+    refresh().catch(() => {})
+  }, [])
+
+  const selected = profiles.find((p) => p.id === value)
+
+  const check = async (profile: ServerProfile) => {
+    setReachable((prev) => ({ ...prev, [profile.id]: undefined }))
+    const ok = await window.api.checkServerProfile(profile).catch(() => false)
+    setReachable((prev) => ({ ...prev, [profile.id]: ok }))
+  }
+
+  const save = async () => {
+    if (!draft) return
+    setSaveError(null)
+    const res = await window.api.saveServerProfile(draft)
+    if (!res.ok || !res.profile) {
+      setSaveError(res.error || '저장하지 못했습니다.')
+      return
+    }
+    setDraft(null)
+    await refresh()
+    onChange(res.profile.id)
+  }
+
+  const remove = async (id: string) => {
+    await window.api.deleteServerProfile(id)
+    await refresh()
+    if (id === value) onChange('staging')
+  }
+
+  const status = selected ? reachable[selected.id] : undefined
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        {selected && <code className="bg-gray-100 px-2 py-1 rounded">{selected.serverUrl}</code>}
+        <button
+          onClick={() => selected && check(selected)}
+          disabled={disabled || !selected}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          연결 확인
+        </button>
+        {selected && selected.id in reachable && (
+          <span className={`text-xs ${status === undefined ? 'text-gray-500' : status ? 'text-green-600' : 'text-red-600'}`}>
+            {status === undefined ? '확인 중...' : status ? '✓ 연결됨' : '✗ 연결할 수 없음'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {selected && !selected.builtin && (
+          <>
+            <button
+              onClick={() => setDraft({ ...selected })}
+              disabled={disabled}
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              수정
+            </button>
+            <button
+              onClick={() => remove(selected.id)}
+              disabled={disabled}
+              className="px-3 py-1 rounded text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              삭제
+            </button>
+          </>
+        )}
+        {!draft && (
+          <button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            disabled={disabled}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            + 학교 서버 추가
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 border border-gray-200 rounded-lg p-3">
+          <input
+            type="text"
+            placeholder="이름 (예: 우리 학교 서버)"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+          <input
+            type="text"
+            placeholder="주소 (예: http://192.168.0.10:8080)"
+            value={draft.serverUrl}
+            onChange={(e) => setDraft({ ...draft, serverUrl: e.target.value })}
+            className="px-2 py-1 rounded border border-gray-300 font-mono"
+          />
+          <input
+            type="text"
+            placeholder="공통 쿠키 도메인 (기본: localhost)"
+            value={draft.cookieDomain || ''}
+            onChange={(e) => setDraft({ ...draft, cookieDomain: e.target.value.trim() || undefined })}
+            className="px-2 py-1 rounded border border-gray-300 font-mono"
+          />
+          <input
+            type="text"
+            placeholder="선생님용 쿠키 도메인 (기본: admin.localhost)"
+            value={draft.adminCookieDomain || ''}
+            onChange={(e) => setDraft({ ...draft, adminCookieDomain: e.target.value.trim() || undefined })}
+            className="px-2 py-1 rounded border border-gray-300 font-mono"
+          />
+          <input
+            type="text"
+            placeholder="학생용 쿠키 도메인 (기본: 이 컴퓨터 IP)"
+            value={draft.studentCookieDomain || ''}
+            onChange={(e) => setDraft({ ...draft, studentCookieDomain: e.target.value.trim() || undefined })}
+            className="px-2 py-1 rounded border border-gray-300 font-mono"
+          />
+          <div className="flex items-center gap-2">
+            <button onClick={save} className="px-3 py-1 rounded bg-carrot text-white">저장</button>
+            <button
+              onClick={() => { setDraft(null); setSaveError(null) }}
+              className="px-3 py-1 rounded text-gray-500 hover:text-gray-700"
+            >
+              취소
+            </button>
+          </div>
+          {saveError && <div className="text-xs text-red-600 md:col-span-2">{saveError}</div>}
+        </div>
+      )}
+    </div>
+  )
+}
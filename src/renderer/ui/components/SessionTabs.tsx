@@ -0,0 +1,73 @@
+import React from 'react'
+import type { LaunchStatus } from '@shared/types'
+
+type Tab = {
+  id: string
+  label: string
+  status: LaunchStatus
+  closable: boolean
+}
+
+type Props = {
+  tabs: Tab[]
+  activeId: string
+  onSelect: (id: string) => void
+  onAdd: () => void
+  onStop: (id: string) => void
+  onClose: (id: string) => void   // 실행 중이 아닌 탭만 닫을 수 있음
+}
+
+function indicatorClass(status: LaunchStatus): string {
+  if (status.step === 'running') return status.client?.step === 'error' ? 'bg-red-500' : 'bg-green-500'
+  if (status.step === 'error') return 'bg-red-500'
+  if (status.step === 'idle') return 'bg-gray-300'
+  return 'bg-yellow-500 animate-pulse'
+}
+
+// 동시에 실행하는 수업 세션 사이를 오가는 탭 (세션마다 작업 폴더와 포트가 따로 있음)
+export const SessionTabs: React.FC<Props> = ({ tabs, activeId, onSelect, onAdd, onStop, onClose }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tabs.map((tab) => {
+        const active = tab.id === activeId
+        const idle = tab.status.step === 'idle'
+        return (
+          <div
+            key={tab.id}
+            className={`flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-lg border text-sm ${active ? 'bg-white border-carrot shadow-soft' : 'bg-white/60 border-gray-200 hover:bg-white'}`}
+          >
+            <button onClick={() => onSelect(tab.id)} className="flex items-center gap-2">
+              <span className={`inline-block w-2.5 h-2.5 rounded-full ${indicatorClass(tab.status)}`} />
+              <span className={active ? 'font-semibold' : ''}>{tab.label}</span>
+              {tab.status.version && <code className="text-xs text-gray-500">{tab.status.version.slice(0, 12)}</code>}
+              {tab.status.ports && !idle && <span className="text-xs text-gray-500">:{tab.status.ports.student}</span>}
+            </button>
+            {!idle ? (
+              <button
+                onClick={() => onStop(tab.id)}
+                className="text-gray-500 hover:text-red-600"
+                title="이 수업 종료"
+              >
+                ⏹️
+              </button>
+            ) : tab.closable && (
+              <button
+                onClick={() => onClose(tab.id)}
+                className="text-gray-400 hover:text-gray-700"
+                title="탭 닫기"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        )
+      })}
+      <button
+        onClick={onAdd}
+        className="px-3 py-1.5 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-white"
+      >
+        + 새 수업
+      </button>
+    </div>
+  )
+}
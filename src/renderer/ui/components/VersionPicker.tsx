@@ -0,0 +1,110 @@
+import React, { useState } from 'react'
+import type { VersionSelection } from '@shared/types'
+
+type Props = {
+  repoUrl: string
+  value: VersionSelection | null
+  defaultBranch: string
+  lastGood?: string | null
+  disabled?: boolean
+  onChange: (value: VersionSelection | null) => void
+}
+
+export const VersionPicker: React.FC<Props> = ({ repoUrl, value, defaultBranch, lastGood, disabled, onChange }) => {
+  const [refs, setRefs] = useState<{ branches: string[]; tags: string[] } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [commitInput, setCommitInput] = useState(value?.kind === 'commit' ? value.name : '')
+
+  const loadRefs = async () => {
+    setLoading(true)
+    setLoadError(null)
+    try {
+      setRefs(await window.api.listRemoteRefs(repoUrl))
+    } catch {
+      setLoadError('버전 목록을 불러오지 못했습니다. 인터넷 연결을 확인해주세요.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectValue = value ? `${value.kind}:${value.name}` : ''
+  const handleSelect = (raw: string) => {
+    if (!raw) {
+      onChange(null)
+      return
+    }
+    const [kind, ...rest] = raw.split(':')
+    onChange({ kind: kind as VersionSelection['kind'], name: rest.join(':') })
+  }
+
+  const current = value
+    ? `${value.kind === 'branch' ? '브랜치' : value.kind === 'tag' ? '태그' : '커밋'} ${value.kind === 'commit' ? value.name.slice(0, 7) : value.name}`
+    : `기본 (${defaultBranch} 최신)`
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">현재 선택:</span>
+        <code className="bg-gray-100 px-2 py-1 rounded">{current}</code>
+        {lastGood && (
+          <span className="text-xs text-gray-500">마지막 정상 실행: <code>{lastGood.slice(0, 7)}</code></span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={loadRefs}
+          disabled={disabled || loading}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? '불러오는 중...' : refs ? '목록 새로고침' : '버전 목록 불러오기'}
+        </button>
+
+        {refs && (
+          <select
+            value={value?.kind === 'commit' ? '' : selectValue}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={disabled}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="">기본 ({defaultBranch} 최신)</option>
+            <optgroup label="브랜치">
+              {refs.branches.map((b) => <option key={`b-${b}`} value={`branch:${b}`}>{b}</option>)}
+            </optgroup>
+            <optgroup label="태그">
+              {refs.tags.map((t) => <option key={`t-${t}`} value={`tag:${t}`}>{t}</option>)}
+            </optgroup>
+          </select>
+        )}
+
+        <input
+          type="text"
+          placeholder="커밋 해시로 고정"
+          value={commitInput}
+          onChange={(e) => setCommitInput(e.target.value.trim())}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-300 font-mono w-44"
+        />
+        <button
+          onClick={() => commitInput && onChange({ kind: 'commit', name: commitInput })}
+          disabled={disabled || !/^[0-9a-f]{7,40}$/i.test(commitInput)}
+          className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          고정
+        </button>
+        {value && (
+          <button
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="px-3 py-1 rounded text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          >
+            기본값으로
+          </button>
+        )}
+      </div>
+
+      {loadError && <div className="text-xs text-red-600">{loadError}</div>}
+    </div>
+  )
+}
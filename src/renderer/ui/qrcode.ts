@@ -0,0 +1,320 @@
+// 네트워크 없이 QR 코드를 만들기 위한 최소 인코더
+// 바이트 모드, 오류 정정 레벨 M, 버전 1~10 (수업 주소 길이에는 충분함)
+
+const MAX_VERSION = 10
+// 버전별 블록당 오류 정정 코드워드 수와 블록 수 (레벨 M, 인덱스 0은 사용 안 함)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26]
+const NUM_ECC_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5]
+// 형식 정보에 들어가는 레벨 M 값
+const ECC_LEVEL_BITS = 0
+
+type Matrix = {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0
+}
+
+// 기능 패턴과 형식/버전 정보를 제외한 데이터 모듈 수
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function numDataCodewords(version: number): number {
+  return Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version]
+}
+
+/** ---------- Reed-Solomon (GF(256), 다항식 0x11D) ---------- */
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor) })
+  }
+  return result
+}
+
+/** ---------- 데이터 코드워드 ---------- */
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0x4, 4)                                   // 바이트 모드
+  append(bytes.length, version <= 9 ? 8 : 16)      // 글자 수
+  bytes.forEach((b) => append(b, 8))
+
+  const capacityBits = numDataCodewords(version) * 8
+  append(0, Math.min(4, capacityBits - bits.length))        // 종료 표시
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// 블록별로 오류 정정 코드를 붙이고 블록을 번갈아 섞음
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ECC_BLOCKS[version]
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = rsDivisor(blockEccLen)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1))
+    k += dat.length
+    const ecc = rsRemainder(dat, divisor)
+    if (i < numShortBlocks) dat.push(0)
+    blocks.push([...dat, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // 짧은 블록에 채워 넣은 자리는 건너뜀
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i])
+    })
+  }
+  return result
+}
+
+/** ---------- 모듈 배치 ---------- */
+function setFunction(m: Matrix, x: number, y: number, dark: boolean) {
+  m.modules[y][x] = dark
+  m.isFunction[y][x] = true
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos)
+  return result
+}
+
+function drawFormatBits(m: Matrix, mask: number) {
+  const data = (ECC_LEVEL_BITS << 3) | mask
+  let rem = data
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+  const bits = ((data << 10) | rem) ^ 0x5412
+
+  for (let i = 0; i <= 5; i++) setFunction(m, 8, i, getBit(bits, i))
+  setFunction(m, 8, 7, getBit(bits, 6))
+  setFunction(m, 8, 8, getBit(bits, 7))
+  setFunction(m, 7, 8, getBit(bits, 8))
+  for (let i = 9; i < 15; i++) setFunction(m, 14 - i, 8, getBit(bits, i))
+
+  for (let i = 0; i < 8; i++) setFunction(m, m.size - 1 - i, 8, getBit(bits, i))
+  for (let i = 8; i < 15; i++) setFunction(m, 8, m.size - 15 + i, getBit(bits, i))
+  setFunction(m, 8, m.size - 8, true)
+}
+
+function drawVersion(m: Matrix, version: number) {
+  if (version < 7) return
+  let rem = version
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+  const bits = (version << 12) | rem
+  for (let i = 0; i < 18; i++) {
+    const dark = getBit(bits, i)
+    const a = m.size - 11 + (i % 3)
+    const b = Math.floor(i / 3)
+    setFunction(m, a, b, dark)
+    setFunction(m, b, a, dark)
+  }
+}
+
+function drawFunctionPatterns(m: Matrix, version: number) {
+  for (let i = 0; i < m.size; i++) {
+    setFunction(m, 6, i, i % 2 === 0)
+    setFunction(m, i, 6, i % 2 === 0)
+  }
+
+  for (const [cx, cy] of [[3, 3], [m.size - 4, 3], [3, m.size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= m.size || y < 0 || y >= m.size) continue
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        setFunction(m, x, y, dist !== 2 && dist !== 4)
+      }
+    }
+  }
+
+  const positions = alignmentPositions(version)
+  const last = positions.length - 1
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // 찾기 패턴과 겹치는 세 모서리는 제외
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(m, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  drawFormatBits(m, 0)   // 자리만 잡아 두고 마스크를 고른 뒤 다시 그림
+  drawVersion(m, version)
+}
+
+// 오른쪽 아래부터 두 열씩 지그재그로 채움
+function drawCodewords(m: Matrix, data: number[]) {
+  let i = 0
+  for (let right = m.size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vert = 0; vert < m.size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? m.size - 1 - vert : vert
+        if (!m.isFunction[y][x] && i < data.length * 8) {
+          m.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+          i++
+        }
+      }
+    }
+  }
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+function applyMask(m: Matrix, mask: number) {
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.isFunction[y][x] && maskApplies(mask, x, y)) m.modules[y][x] = !m.modules[y][x]
+    }
+  }
+}
+
+/** ---------- 마스크 선택용 감점 ---------- */
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+]
+
+function linePenalty(line: boolean[]): number {
+  let penalty = 0
+  let runLength = 1
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++
+      continue
+    }
+    if (runLength >= 5) penalty += runLength - 2
+    runLength = 1
+  }
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) penalty += 40
+  }
+  return penalty
+}
+
+function penaltyScore(m: Matrix): number {
+  let penalty = 0
+  for (let y = 0; y < m.size; y++) penalty += linePenalty(m.modules[y])
+  for (let x = 0; x < m.size; x++) penalty += linePenalty(m.modules.map((row) => row[x]))
+
+  let dark = 0
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (m.modules[y][x]) dark++
+      if (x + 1 < m.size && y + 1 < m.size) {
+        const c = m.modules[y][x]
+        if (c === m.modules[y][x + 1] && c === m.modules[y + 1][x] && c === m.modules[y + 1][x + 1]) penalty += 3
+      }
+    }
+  }
+  const total = m.size * m.size
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * 10
+  return penalty
+}
+
+// 문자열을 QR 모듈 배열로 변환 (true = 검은 칸), 너무 길면 에러
+export function encodeQr(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text)
+  let version = 1
+  while (version <= MAX_VERSION && 4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > numDataCodewords(version) * 8) version++
+  if (version > MAX_VERSION) throw new Error(`QR 코드로 만들기에는 너무 깁니다 (${bytes.length} bytes)`)
+
+  const size = version * 4 + 17
+  const base: Matrix = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+  drawFunctionPatterns(base, version)
+  drawCodewords(base, addEccAndInterleave(encodeData(bytes, version), version))
+
+  let best: Matrix | null = null
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    const candidate: Matrix = {
+      size,
+      modules: base.modules.map((row) => [...row]),
+      isFunction: base.isFunction.map((row) => [...row])
+    }
+    applyMask(candidate, mask)
+    drawFormatBits(candidate, mask)
+    const penalty = penaltyScore(candidate)
+    if (penalty < bestPenalty) {
+      best = candidate
+      bestPenalty = penalty
+    }
+  }
+  return best!.modules
+}
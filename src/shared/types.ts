@@ -1,26 +1,266 @@
+export type ServiceStep = 'idle' | 'preparing' | 'cloning' | 'installing' | 'building' | 'starting' | 'running' | 'error'
+
+export type PortMap = {
+  student: number;
+  admin: number;
+  server?: number;
+  studentInternal?: number; // dev/static server behind the student proxy, bound to 127.0.0.1
+  adminInternal?: number;   // HTTPS mode only: admin site behind its TLS front
+  serverInternal?: number;  // HTTPS mode only: local backend behind its TLS front
+}
+
+// Values may reference variables such as {localIP}, {studentPort}, {adminPort}, {serverUrl}, {scheme}, {lanHostname}, {branch}
+export type EnvFileTemplate = {
+  target: string;          // path relative to the frontend directory, e.g. 'packages/admin/.env.local'
+  comment?: string;        // written as the first line ('# ...')
+  requireDir?: boolean;    // only write when the target's directory already exists
+  vars: Record<string, string>;
+}
+
+// Manual KEY=value overrides per target, applied on top of the rendered templates
+export type EnvOverrides = Record<string, Record<string, string>>
+
+export type RenderedEnvFile = {
+  target: string;
+  content: string;
+  overridden: string[];    // keys whose value came from an override
+}
+
+export type ServerProfile = {
+  id: string;
+  name: string;
+  serverUrl: string;             // e.g., 'https://mozu-v2-stag.dsmhs.kr'
+  cookieDomain?: string;         // defaults to 'localhost'
+  adminCookieDomain?: string;    // defaults to 'admin.localhost'
+  studentCookieDomain?: string;  // defaults to the student-facing IP
+  builtin?: boolean;             // shipped with the launcher, cannot be edited or deleted
+}
+
 export type RepoConfig = {
   frontend: {
     url: string;
     branch?: string;
+    ref?: string;          // tag or commit to pin; takes precedence over branch
     startCommand?: string;
     installCommand?: string;
     cwdName?: string;
     devUrl?: string;       // e.g., 'http://localhost:3000'
+    readyTimeoutMs?: number; // how long to wait for the sites to respond, defaults to 180000
+    mode?: 'dev' | 'production'; // 'production' builds once and serves the output from the launcher
+    buildCommand?: string;       // production mode only, defaults to 'yarn build'
+    outputDirs?: {               // production mode only, relative to the frontend directory
+      student?: string;          // defaults to 'packages/student/dist'
+      admin?: string;            // defaults to 'packages/admin/dist'
+    };
+  };
+  backend?: {
+    url: string;
+    branch?: string;
+    ref?: string;
+    startCommand?: string;
+    installCommand?: string;
+    cwdName?: string;      // defaults to 'backend'
+    port?: number;         // defaults to 8080
+    healthPath?: string;   // e.g., '/actuator/health', defaults to '/'
   };
+  ports?: {
+    student?: number;      // preferred port, defaults to 3001 (falls back to the next free port)
+    admin?: number;        // preferred port, defaults to 3002
+  };
+  serverProfileId?: string; // ignored when a local backend is configured, defaults to the selected profile
+  envFiles?: EnvFileTemplate[]; // defaults to the admin/student/util-config/root .env.local set
+  cleanInstall?: boolean;  // remove node_modules and reinstall even if the lockfile is unchanged
   workspaceDir?: string;   // custom workspace directory, defaults to app.getPath('userData')/workspace
 }
+export type VersionSelection = { kind: 'branch' | 'tag' | 'commit'; name: string }
+
+// Persisted by the main process in userData/settings.json, also the format of exported settings files
+export type AccessControlSettings = {
+  allowedNetworks: string[];        // CIDR such as '192.168.10.0/24' or an adapter name; empty allows every network
+  requirePin: boolean;              // generate a lesson PIN students must enter before /signin
+}
+
+export type LauncherSettings = {
+  version: number;                  // schema version, bumped when the shape changes
+  workspaceDir: string;             // '' uses app.getPath('userData')/workspace
+  repo: Pick<RepoConfig, 'frontend' | 'backend' | 'envFiles'>;
+  frontendVersion: VersionSelection | null; // null follows the latest commit of repo.frontend.branch
+  serveMode: 'dev' | 'production';
+  ports: NonNullable<RepoConfig['ports']>;
+  serverProfileId: string;
+  serverProfiles: ServerProfile[];  // custom profiles only, built-in ones are not stored
+  networkInterface: string;         // '' picks the first external IPv4 interface
+  lanHostname: string;              // mDNS name advertised for the student site, e.g. 'mozu-room3' ('' disables it)
+  accessControl: AccessControlSettings;
+  https: boolean;                   // serve the sites over TLS with a certificate from the launcher's local CA
+}
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogEntry = {
+  seq: number;             // increases by one per entry, used to skip entries the renderer already has
+  time: number;            // epoch milliseconds
+  level: LogLevel;
+  source: string;          // e.g. 'git', 'deps', 'frontend', 'backend'
+  text: string;
+}
+
+// Sent on 'log-entries'; reset means the history was cleared (e.g. when a lesson stops)
+export type LogBatch = {
+  sessionId: string;       // '' for launcher-wide messages such as the hosts file
+  entries: LogEntry[];
+  reset?: boolean;
+}
+
+// Stable identifiers for launch failures; the renderer maps them to the solutions catalog
+export type ErrorCode =
+  | 'GIT_NOT_FOUND'
+  | 'NODE_NOT_FOUND'
+  | 'YARN_NOT_FOUND'
+  | 'NODE_VERSION_UNSUPPORTED'
+  | 'YARN_VERSION_UNSUPPORTED'
+  | 'SERVER_UNREACHABLE'
+  | 'GIT_SYNC_FAILED'
+  | 'INSTALL_FAILED'
+  | 'BUILD_FAILED'
+  | 'BACKEND_FAILED'
+  | 'FRONTEND_EXITED'
+  | 'FRONTEND_PORT_IGNORED'  // dev server did not bind the assigned loopback port
+  | 'READINESS_TIMEOUT'
+  | 'PORT_IN_USE'
+  | 'PERMISSION_DENIED'
+  | 'DISK_FULL'
+  | 'NETWORK_ERROR'
+  | 'INVALID_WORKSPACE_PATH'   // renderer-side validation
+  | 'WORKSPACE_PATH_TOO_LONG'  // renderer-side validation
+  | 'UNKNOWN'
+
+export type LaunchError = {
+  code: ErrorCode;
+  message: string;         // technical message, shown under the catalog text
+  step: LaunchStatus['step']; // step that was in progress when the launch failed
+  logExcerpt: string[];    // last log lines before the failure
+}
+
+export type ErrorSolution = {
+  title: string;
+  message: string;
+  solutions: string[];
+  links?: { text: string; url: string }[];
+}
+
+// Keyed by ErrorCode; entries in userData/error-catalog.json override the bundled ones
+export type ErrorCatalog = Partial<Record<ErrorCode, ErrorSolution>>
+
+export type NetworkInterfaceInfo = {
+  name: string;            // OS adapter name, stored in settings.networkInterface
+  address: string;         // external IPv4 address
+  virtual: boolean;        // VPN / Hyper-V / Docker style adapter, usually unreachable for students
+}
+
+// A device seen by the student proxy during the current lesson
+export type ConnectedClient = {
+  ip: string;
+  requests: number;        // HTTP requests forwarded so far
+  firstSeen: number;
+  lastSeen: number;
+  openSockets: number;     // open WebSocket connections (vite HMR etc.)
+  userAgent?: string;      // most recent User-Agent, used to tell phones from laptops
+}
+
+// Sent on 'clients-update' with the full list for one lesson session
+export type SessionClientsUpdate = {
+  sessionId: string;
+  clients: ConnectedClient[];
+}
+
+export type HostsStatus = {
+  path: string;            // hosts file being managed (an alternate file in dry-run mode)
+  dryRun: boolean;
+  mapped: boolean;         // admin.localhost points to loopback somewhere in the file
+  managed: boolean;        // ... inside the launcher's own marked block
+  error?: string;          // unreadable file or damaged marked block
+}
+
+export type PreflightResult = 'pass' | 'warn' | 'fail'
+
+export type PreflightCheck = {
+  id: string;
+  label: string;
+  result: PreflightResult;
+  message: string;
+  code?: ErrorCode;        // set when result is 'fail'; the launch reports the first failing code
+}
+
+export type PreflightReport = {
+  checkedAt: number;
+  checks: PreflightCheck[];
+}
+
 export type LaunchStatus = {
   step: 'idle' | 'checking-tools' | 'preparing' | 'cloning' | 'installing' | 'building' | 'starting' | 'running' | 'error';
   message?: string;
-  logs?: string[];
   serverPid?: number | null;
   frontendPid?: number | null;
+  ports?: PortMap;         // ports actually allocated for this launch
+  error?: LaunchError;     // set together with step 'error'
+  preflight?: PreflightReport; // checks run at the start of this launch
+  localIP?: string;        // address baked into the env files for this launch
+  lanHostname?: string;    // advertised mDNS name such as 'mozu-room3.local', set while advertising
+  lessonPin?: string;      // PIN students enter before /signin ('' or unset when not required)
+  https?: boolean;         // sites are served over TLS for this launch
+  version?: string;        // branch, tag or commit requested for this launch, shown on the session tab
+  runningSince?: number;   // when the launch first reached 'running' (lesson elapsed time)
+  ipChange?: {             // set when the address changed after the launch reached 'running'
+    previous: string;
+    current: string;
+  };
+  revision?: {
+    current?: string;      // frontend commit checked out for this launch
+    lastGood?: string;     // last frontend commit that reached 'running'
+  };
   server?: {
-    step: 'idle' | 'preparing' | 'cloning' | 'installing' | 'building' | 'starting' | 'running' | 'error';
+    step: ServiceStep;
     message?: string;
   };
   client?: {
-    step: 'idle' | 'preparing' | 'cloning' | 'installing' | 'building' | 'starting' | 'running' | 'error';
+    step: ServiceStep;
     message?: string;
+    restarts?: number;     // automatic restarts by the supervisor during this launch
   };
-}
\ No newline at end of file
+}
+
+// Sent on 'status-update'; each lesson session reports its own status
+export type SessionStatusUpdate = {
+  sessionId: string;
+  status: LaunchStatus;
+}
+
+// Returned by 'get-status', keyed by session ID (sessions that are not running are absent)
+export type SessionStatuses = Record<string, LaunchStatus>
+
+// How a recorded lesson ended; 'running' is still in progress, 'interrupted' means the launcher quit without stopping it
+export type LessonOutcome = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted'
+
+export type LessonStepTiming = {
+  step: LaunchStatus['step'];
+  durationMs: number;
+}
+
+// One startMockEnvironment run, stored in userData/lesson-history.json
+export type LessonRecord = {
+  id: string;
+  sessionId: string;
+  host: string;            // PC name, to spot machines that keep failing
+  repoUrl: string;
+  version?: string;        // branch, tag or commit requested for the launch
+  revision?: string;       // frontend commit actually checked out
+  mode: 'dev' | 'production';
+  startedAt: number;       // epoch milliseconds
+  runningAt?: number;      // when the lesson first reached 'running'
+  stoppedAt?: number;      // when it was stopped or failed
+  steps: LessonStepTiming[]; // finished steps in order, 'running' lasts until the lesson stopped
+  peakClients: number;     // most devices connected through the student proxy at once
+  outcome: LessonOutcome;
+  errorCode?: ErrorCode;   // set when outcome is 'failed'
+  errorStep?: LaunchStatus['step'];
+}